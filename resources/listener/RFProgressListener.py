@@ -0,0 +1,70 @@
+"""Robot Framework listener (API v3) reporting run progress to RF Test Runner.
+
+Every event is appended as one JSON object per line to the file given as the
+listener argument:
+
+    robot --listener RFProgressListener.py:events.jsonl tests/
+
+pabot starts one Robot process per worker; they all append to the same file
+and are told apart by the "pid" field.
+"""
+
+import json
+import os
+import time
+
+
+class RFProgressListener:
+    ROBOT_LISTENER_API_VERSION = 3
+
+    def __init__(self, events_file):
+        self._file = open(events_file, 'a', encoding='utf-8')
+        self._depth = 0
+
+    def _emit(self, event, **fields):
+        fields.update(event=event, pid=os.getpid(), time=time.time())
+        # One write per line keeps lines from several pabot workers intact
+        self._file.write(json.dumps(fields) + '\n')
+        self._file.flush()
+
+    @staticmethod
+    def _long_name(result):
+        # Robot 7 renamed longname to full_name
+        return getattr(result, 'full_name', None) or getattr(result, 'longname', result.name)
+
+    @staticmethod
+    def _elapsed_ms(result):
+        elapsed = getattr(result, 'elapsed_time', None)
+        if elapsed is not None:
+            return int(elapsed.total_seconds() * 1000)
+        return getattr(result, 'elapsedtime', 0)
+
+    def start_suite(self, data, result):
+        top = self._depth == 0
+        self._depth += 1
+        self._emit('start_suite', name=data.name, longname=self._long_name(result),
+                   source=str(data.source) if data.source else None,
+                   top=top, total=data.test_count if top else None)
+
+    def end_suite(self, data, result):
+        self._depth -= 1
+        self._emit('end_suite', name=data.name, longname=self._long_name(result),
+                   status=result.status, message=result.message, elapsed_ms=self._elapsed_ms(result))
+
+    def start_test(self, data, result):
+        self._emit('start_test', name=data.name, longname=self._long_name(result),
+                   source=str(data.source) if data.source else None, lineno=data.lineno)
+
+    def end_test(self, data, result):
+        self._emit('end_test', name=data.name, longname=self._long_name(result),
+                   status=result.status, message=result.message, elapsed_ms=self._elapsed_ms(result))
+
+    # Keyword events of listener v3 need Robot Framework 7 or newer
+    def start_keyword(self, data, result):
+        self._emit('start_keyword', name=result.name, lineno=getattr(data, 'lineno', None))
+
+    def end_keyword(self, data, result):
+        self._emit('end_keyword', name=result.name, status=result.status)
+
+    def close(self):
+        self._file.close()
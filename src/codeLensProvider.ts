@@ -0,0 +1,67 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { WorkspaceManager } from './workspaceManager';
+
+/**
+ * Places "Run | Debug | Run in Docker" above every discovered suite and its test cases
+ */
+export class RFCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+    private readonly _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+    private readonly testsListener: vscode.Disposable;
+
+    readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+    constructor(private readonly workspaces: WorkspaceManager) {
+        // Lens positions come from discovery, so follow its updates
+        this.testsListener = this.workspaces.onDidChangeTests(() => this.refresh());
+    }
+
+    refresh() {
+        this._onDidChangeCodeLenses.fire();
+    }
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        const workspace = this.workspaces.getForUri(document.uri);
+        const suite = workspace?.discovery.findSuite(path.relative(workspace.root, document.uri.fsPath));
+        if (!suite) {
+            return [];
+        }
+
+        const lenses = RFCodeLensProvider.actions(new vscode.Range(0, 0, 0, 0), document.uri);
+        for (const test of suite.children ?? []) {
+            if (test.line !== undefined) {
+                lenses.push(...RFCodeLensProvider.actions(new vscode.Range(test.line, 0, test.line, 0), document.uri, test.testName));
+            }
+        }
+        return lenses;
+    }
+
+    private static actions(range: vscode.Range, uri: vscode.Uri, testName?: string): vscode.CodeLens[] {
+        const target = testName ? `"${testName}"` : 'this suite';
+        return [
+            new vscode.CodeLens(range, {
+                title: 'Run',
+                tooltip: `Run ${target} locally`,
+                command: 'rfTestRunner.runTest',
+                arguments: [uri, testName, 'local']
+            }),
+            new vscode.CodeLens(range, {
+                title: 'Debug',
+                tooltip: `Debug ${target} locally`,
+                command: 'rfTestRunner.debugTest',
+                arguments: [uri, testName]
+            }),
+            new vscode.CodeLens(range, {
+                title: 'Run in Docker',
+                tooltip: `Run ${target} in Docker`,
+                command: 'rfTestRunner.runTest',
+                arguments: [uri, testName, 'docker']
+            })
+        ];
+    }
+
+    dispose() {
+        this.testsListener.dispose();
+        this._onDidChangeCodeLenses.dispose();
+    }
+}
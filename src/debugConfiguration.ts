@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+
+/**
+ * Debug type and extension of the RobotCode debug adapter, which runs Robot in-process
+ * and supports breakpoints in .robot/.resource files, stepping and variable inspection
+ */
+export const DEBUG_TYPE = 'robotcode';
+export const DEBUG_EXTENSION_ID = 'd-biehl.robotcode';
+
+// Marks the debug sessions started by this extension
+export const DEBUG_SESSION_MARKER = 'rfTestRunnerRoot';
+
+// Script options Robot knows under another name
+const RENAMED_OPTIONS: Record<string, string> = {
+    '--log-level': '--loglevel',
+    '--report-title': '--reporttitle'
+};
+
+// Options the scripts pass on to Robot unchanged
+const ROBOT_OPTIONS = new Set(['--include', '--exclude', '--test', '--rerunfailed', '--debugfile', '--listener']);
+
+// Script flags without a value; every other option takes one
+const SCRIPT_FLAGS = new Set([
+    '--headless', '--maximize-browser', '--full-width-viewport', '--keep-vnc-open',
+    '--install-dependencies', '--check-deps', '--parallel', '--testlevelsplit'
+]);
+
+// Script options with no meaning for a single Robot process; the image only selects the container
+const IGNORED_OPTIONS = new Set([
+    '--install-dependencies', '--check-deps', '--parallel', '--processes', '--testlevelsplit', '--ordering', '--image'
+]);
+
+export function isDebugAdapterInstalled(): boolean {
+    return !!vscode.extensions.getExtension(DEBUG_EXTENSION_ID);
+}
+
+/**
+ * Robot options, variables and paths equivalent to a script invocation
+ */
+export interface RobotInvocation {
+    args: string[];
+    variables: Record<string, string>;
+    paths: string[];
+    skipped: string[];  // Script options left out because no Robot variable is set for them
+}
+
+/**
+ * Translate script arguments for running Robot directly, without the script. Robot options
+ * are passed on as they are, while the options the script would interpret itself set the
+ * Robot variable `optionVariables` maps them to, e.g. `{ "--headless": "HEADLESS" }`.
+ * Script options without a variable and pabot options are left out.
+ */
+export function toRobotInvocation(words: string[], optionVariables: Record<string, string> = {}): RobotInvocation {
+    const args: string[] = [];
+    const variables: Record<string, string> = {};
+    const paths: string[] = [];
+    const skipped: string[] = [];
+
+    for (let i = 0; i < words.length; i++) {
+        const word = words[i];
+        if (!word.startsWith('-')) {
+            paths.push(word);
+            continue;
+        }
+
+        const isFlag = SCRIPT_FLAGS.has(word);
+        const value = isFlag ? 'True' : words[++i] ?? '';
+
+        if (IGNORED_OPTIONS.has(word)) {
+            continue;
+        }
+
+        if (word === '-v') {
+            const separator = value.indexOf(':');
+            if (separator > 0) {
+                variables[value.slice(0, separator)] = value.slice(separator + 1);
+            }
+        } else if (ROBOT_OPTIONS.has(word)) {
+            args.push(word, value);
+        } else if (RENAMED_OPTIONS[word]) {
+            args.push(RENAMED_OPTIONS[word], value);
+        } else if (Object.prototype.hasOwnProperty.call(optionVariables, word) && optionVariables[word]) {
+            variables[optionVariables[word]] = value;
+        } else {
+            skipped.push(word);
+        }
+    }
+
+    return { args, variables, paths, skipped };
+}
+
+/**
+ * Turn the Robot invocation of a local run into a launch configuration for the Robot debug adapter
+ */
+export function createDebugConfiguration(invocation: RobotInvocation, workspaceRoot: string, name: string): vscode.DebugConfiguration {
+    const { args, variables, paths } = invocation;
+    return {
+        type: DEBUG_TYPE,
+        request: 'launch',
+        name,
+        cwd: workspaceRoot,
+        paths,
+        args,
+        variables,
+        console: 'integratedTerminal',
+        [DEBUG_SESSION_MARKER]: workspaceRoot
+    };
+}
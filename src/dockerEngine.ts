@@ -0,0 +1,229 @@
+import * as http from 'http';
+import { StringDecoder } from 'string_decoder';
+import { extractTar } from './tarArchive';
+
+/**
+ * Label put on the containers of a workspace folder, with the folder path as value
+ */
+export const CONTAINER_LABEL = 'rf-test-runner.workspace';
+
+/**
+ * Socket of the local Docker Engine: DOCKER_HOST when it names a socket or pipe, else the platform default
+ */
+export function defaultDockerSocket(): string {
+    const host = process.env.DOCKER_HOST ?? '';
+    if (host.startsWith('unix://')) {
+        return host.slice('unix://'.length);
+    }
+    if (host.startsWith('npipe://')) {
+        return host.slice('npipe://'.length);
+    }
+    return process.platform === 'win32' ? '//./pipe/docker_engine' : '/var/run/docker.sock';
+}
+
+export interface ContainerSpec {
+    image: string;
+    cmd: string[];
+    workingDir: string;
+    binds: string[];    // "hostPath:containerPath"
+    env?: string[];
+    labels?: Record<string, string>;
+    ports?: number[];   // TCP ports published on a free localhost port, see publishedPort
+}
+
+interface EngineResponse {
+    statusCode: number;
+    body: Buffer;
+}
+
+/**
+ * Message of an Engine API error body ({"message": "..."}), or the raw body
+ */
+function errorMessage(statusCode: number, body: Buffer): string {
+    const text = body.toString('utf-8').trim();
+    try {
+        return JSON.parse(text).message ?? text;
+    } catch {
+        return text || `Docker Engine returned HTTP ${statusCode}`;
+    }
+}
+
+/**
+ * Minimal client for the Docker Engine HTTP API over its Unix socket (or Windows named
+ * pipe). Covers what a test run needs: create, start, logs, wait, copy out, stop and remove.
+ */
+export class DockerEngineClient {
+    private static readonly requestTimeoutMs = 60000;
+
+    constructor(readonly socketPath: string = defaultDockerSocket()) {}
+
+    /**
+     * Open a request; the response is returned unread, whatever its status
+     */
+    private open(method: string, urlPath: string, body?: unknown, timeoutMs?: number): Promise<http.IncomingMessage> {
+        const payload = body === undefined ? undefined : JSON.stringify(body);
+        return new Promise((resolve, reject) => {
+            const request = http.request({
+                socketPath: this.socketPath,
+                method,
+                path: urlPath,
+                headers: payload === undefined ? {} : { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(payload) }
+            }, resolve);
+            request.on('error', error => reject(new Error(`Cannot reach the Docker Engine at ${this.socketPath}: ${error.message}`)));
+            if (timeoutMs) {
+                request.setTimeout(timeoutMs, () => request.destroy(new Error(`no answer within ${timeoutMs / 1000}s`)));
+            }
+            request.end(payload);
+        });
+    }
+
+    private async read(response: http.IncomingMessage): Promise<Buffer> {
+        const chunks: Buffer[] = [];
+        for await (const chunk of response) {
+            chunks.push(chunk);
+        }
+        return Buffer.concat(chunks);
+    }
+
+    /**
+     * Send a request and read its whole response. Statuses other than `accepted` are errors.
+     */
+    private async request(method: string, urlPath: string, accepted: number[], body?: unknown, timeoutMs?: number): Promise<EngineResponse> {
+        const response = await this.open(method, urlPath, body, timeoutMs);
+        const data = await this.read(response);
+        const statusCode = response.statusCode ?? 0;
+        if (!accepted.includes(statusCode)) {
+            throw new Error(errorMessage(statusCode, data));
+        }
+        return { statusCode, body: data };
+    }
+
+    /**
+     * Open a streamed response, failing with the Engine's message unless it is 200
+     */
+    private async stream(urlPath: string): Promise<http.IncomingMessage> {
+        const response = await this.open('GET', urlPath);
+        if (response.statusCode !== 200) {
+            throw new Error(errorMessage(response.statusCode ?? 0, await this.read(response)));
+        }
+        return response;
+    }
+
+    async ping(): Promise<void> {
+        await this.request('GET', '/_ping', [200], undefined, 5000);
+    }
+
+    async imageExists(image: string): Promise<boolean> {
+        const response = await this.request('GET', `/images/${encodeURIComponent(image)}/json`, [200, 404], undefined, DockerEngineClient.requestTimeoutMs);
+        return response.statusCode === 200;
+    }
+
+    /**
+     * IDs of all containers, running or not, carrying the label with the given value
+     */
+    async listContainers(label: string, value: string): Promise<string[]> {
+        const filters = encodeURIComponent(JSON.stringify({ label: [`${label}=${value}`] }));
+        const response = await this.request('GET', `/containers/json?all=true&filters=${filters}`, [200], undefined, DockerEngineClient.requestTimeoutMs);
+        return (JSON.parse(response.body.toString('utf-8')) as { Id: string }[]).map(container => container.Id);
+    }
+
+    /**
+     * Create a container without a TTY, so its output can be told apart by stream. Resolves to its ID.
+     */
+    async createContainer(spec: ContainerSpec): Promise<string> {
+        const ports = (spec.ports ?? []).map(port => `${port}/tcp`);
+        const response = await this.request('POST', '/containers/create', [201], {
+            Image: spec.image,
+            Cmd: spec.cmd,
+            WorkingDir: spec.workingDir,
+            Env: spec.env ?? [],
+            Labels: spec.labels ?? {},
+            Tty: false,
+            AttachStdout: true,
+            AttachStderr: true,
+            ExposedPorts: Object.fromEntries(ports.map(port => [port, {}])),
+            HostConfig: {
+                Binds: spec.binds,
+                PortBindings: Object.fromEntries(ports.map(port => [port, [{ HostIp: '127.0.0.1', HostPort: '' }]]))
+            }
+        }, DockerEngineClient.requestTimeoutMs);
+        return JSON.parse(response.body.toString('utf-8')).Id;
+    }
+
+    async startContainer(id: string): Promise<void> {
+        // 304: already started
+        await this.request('POST', `/containers/${id}/start`, [204, 304], undefined, DockerEngineClient.requestTimeoutMs);
+    }
+
+    /**
+     * Host port a container port was published on, once the container has started
+     */
+    async publishedPort(id: string, port: number): Promise<number | undefined> {
+        const response = await this.request('GET', `/containers/${id}/json`, [200], undefined, DockerEngineClient.requestTimeoutMs);
+        const bindings = JSON.parse(response.body.toString('utf-8')).NetworkSettings?.Ports?.[`${port}/tcp`];
+        const hostPort = parseInt(bindings?.[0]?.HostPort ?? '', 10);
+        return isNaN(hostPort) ? undefined : hostPort;
+    }
+
+    /**
+     * Follow stdout and stderr until the container exits. Without a TTY the Engine frames
+     * the output: an 8-byte header (stream type, 3 zero bytes, big-endian length) per chunk.
+     */
+    async followLogs(id: string, onOutput: (text: string) => void): Promise<void> {
+        const response = await this.stream(`/containers/${id}/logs?follow=true&stdout=true&stderr=true`);
+        // One decoder per stream, as a multi-byte character may be split across frames
+        const decoders = new Map<number, StringDecoder>();
+        let pending: Buffer = Buffer.alloc(0);
+
+        for await (const chunk of response) {
+            pending = pending.length ? Buffer.concat([pending, chunk]) : chunk;
+            while (pending.length >= 8) {
+                const length = pending.readUInt32BE(4);
+                if (pending.length < 8 + length) {
+                    break;
+                }
+                const stream = pending[0];
+                const decoder = decoders.get(stream) ?? new StringDecoder('utf-8');
+                decoders.set(stream, decoder);
+                onOutput(decoder.write(pending.subarray(8, 8 + length)));
+                pending = pending.subarray(8 + length);
+            }
+        }
+        decoders.forEach(decoder => onOutput(decoder.end()));
+    }
+
+    /**
+     * Resolve to the exit code once the container has stopped
+     */
+    async waitContainer(id: string): Promise<number> {
+        const response = await this.request('POST', `/containers/${id}/wait`, [200]);
+        const result = JSON.parse(response.body.toString('utf-8'));
+        if (result.Error?.Message) {
+            throw new Error(result.Error.Message);
+        }
+        return result.StatusCode;
+    }
+
+    /**
+     * Ask the container to stop, killing it after `timeoutSeconds`. Stopped or removed containers are fine.
+     */
+    async stopContainer(id: string, timeoutSeconds: number): Promise<void> {
+        await this.request('POST', `/containers/${id}/stop?t=${timeoutSeconds}`, [204, 304, 404], undefined, (timeoutSeconds * 1000) + DockerEngineClient.requestTimeoutMs);
+    }
+
+    /**
+     * Remove the container with its anonymous volumes, killing it if it still runs
+     */
+    async removeContainer(id: string): Promise<void> {
+        await this.request('DELETE', `/containers/${id}?force=true&v=true`, [204, 404], undefined, DockerEngineClient.requestTimeoutMs);
+    }
+
+    /**
+     * Copy a directory out of a container into `destDir`, without the directory itself.
+     * Resolves to the number of files written.
+     */
+    async copyFromContainer(id: string, containerPath: string, destDir: string): Promise<number> {
+        const response = await this.stream(`/containers/${id}/archive?path=${encodeURIComponent(containerPath)}`);
+        return extractTar(response, destDir, 1);
+    }
+}
@@ -0,0 +1,154 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface DockerImage {
+    id: string;
+    repository: string;
+    tag: string;
+    size: string;      // As reported by docker, e.g. "1.2GB"
+    created: string;   // Relative, e.g. "3 days ago"
+}
+
+// Time a docker query may take before it is stopped, e.g. while the daemon hangs
+const QUERY_TIMEOUT_MS = 30000;
+
+function run(args: string[], cwd?: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        cp.execFile('docker', args, { cwd, maxBuffer: 10 * 1024 * 1024, timeout: QUERY_TIMEOUT_MS }, (error, stdout, stderr) => {
+            if (error?.killed) {
+                reject(new Error(`docker ${args[0]} did not finish within ${QUERY_TIMEOUT_MS / 1000}s`));
+            } else if (error) {
+                reject(new Error(stderr.trim() || error.message));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+/**
+ * Lists and builds the Docker images used by Docker runs of a workspace folder
+ */
+export class DockerImageManager implements vscode.Disposable {
+    private readonly outputChannel: vscode.OutputChannel;
+    private buildProcess?: cp.ChildProcess;
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+
+    /**
+     * Fired when a build starts or finishes, as the local images may have changed
+     */
+    readonly onDidChange = this._onDidChange.event;
+
+    /**
+     * @param label Appended to the output channel name to tell workspace folders apart
+     */
+    constructor(private readonly workspaceRoot: string, label?: string) {
+        this.outputChannel = vscode.window.createOutputChannel(label ? `RF Docker Images (${label})` : 'RF Docker Images');
+    }
+
+    get isBuilding(): boolean {
+        return !!this.buildProcess;
+    }
+
+    /**
+     * Repository whose images are listed and built, from rfTestRunner.dockerRepository
+     */
+    get repository(): string {
+        return vscode.workspace.getConfiguration('rfTestRunner', vscode.Uri.file(this.workspaceRoot))
+            .get<string>('dockerRepository', 'robot-framework-custom');
+    }
+
+    get hasDockerfile(): boolean {
+        return fs.existsSync(path.join(this.workspaceRoot, 'Dockerfile'));
+    }
+
+    async list(): Promise<DockerImage[]> {
+        // An empty repository lists every local image
+        const output = await run(['images', '--format', '{{json .}}', ...(this.repository ? [this.repository] : [])]);
+        return output.split('\n').filter(line => line.trim()).flatMap(line => {
+            let image;
+            try {
+                image = JSON.parse(line);
+            } catch {
+                // Warnings docker prints among the images
+                this.outputChannel.appendLine(`Skipped unreadable docker images line: ${line}`);
+                return [];
+            }
+            return [{
+                id: image.ID,
+                repository: image.Repository,
+                tag: image.Tag,
+                size: image.Size,
+                created: image.CreatedSince
+            }];
+        });
+    }
+
+    /**
+     * Whether the image exists locally; false as well when Docker cannot be reached
+     */
+    async exists(image: string): Promise<boolean> {
+        try {
+            await run(['image', 'inspect', '--format', '{{.Id}}', image]);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Build the workspace Dockerfile, streaming docker's output to the output channel
+     */
+    build(image: string): Promise<boolean> {
+        if (this.buildProcess) {
+            vscode.window.showWarningMessage('An image is already being built');
+            return Promise.resolve(false);
+        }
+        if (!this.hasDockerfile) {
+            vscode.window.showErrorMessage(`No Dockerfile found in ${this.workspaceRoot}`);
+            return Promise.resolve(false);
+        }
+
+        this.outputChannel.show();
+        this.outputChannel.appendLine(`Building ${image}: docker build -t ${image} .`);
+        this.outputChannel.appendLine('');
+
+        return new Promise(resolve => {
+            const build = cp.spawn('docker', ['build', '-t', image, '.'], { cwd: this.workspaceRoot });
+            this.buildProcess = build;
+            this._onDidChange.fire();
+
+            build.stdout?.on('data', data => this.outputChannel.append(data.toString()));
+            build.stderr?.on('data', data => this.outputChannel.append(data.toString()));
+
+            let finished = false;
+            const finish = (success: boolean, message: string) => {
+                if (finished) {
+                    return;
+                }
+                finished = true;
+                this.buildProcess = undefined;
+                this.outputChannel.appendLine('');
+                this.outputChannel.appendLine(message);
+                if (success) {
+                    vscode.window.showInformationMessage(`Built Docker image ${image}`);
+                } else {
+                    vscode.window.showErrorMessage(`Building ${image} failed: ${message}`);
+                }
+                this._onDidChange.fire();
+                resolve(success);
+            };
+
+            build.on('close', code => finish(code === 0, `docker build finished with exit code ${code}`));
+            build.on('error', error => finish(false, error.message));
+        });
+    }
+
+    dispose() {
+        this.buildProcess?.kill('SIGTERM');
+        this.outputChannel.dispose();
+        this._onDidChange.dispose();
+    }
+}
@@ -1,30 +1,101 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
 import { RFTestRunnerViewProvider } from './webviewProvider';
-import { ResultsServiceManager } from './resultsService';
-import { TestRunner } from './testRunner';
+import { RFTestController } from './testController';
+import { RFCodeLensProvider } from './codeLensProvider';
+import { FailureDiagnostics } from './failureDiagnostics';
+import { RunHistory } from './runHistory';
+import { ResultsViewer } from './resultsViewer';
+import { VncViewer } from './vncViewer';
+import { TestConfig } from './testRunner';
+import { WorkspaceManager } from './workspaceManager';
+import { DEBUG_EXTENSION_ID, isDebugAdapterInstalled } from './debugConfiguration';
+import { SUITE_FILE_GLOB } from './testDiscovery';
 
-let resultsServiceManager: ResultsServiceManager;
-let testRunner: TestRunner;
+let workspaces: WorkspaceManager;
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('RF Test Runner extension is now active');
 
-    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+    // One runner, results service and discovery per workspace folder
+    workspaces = new WorkspaceManager(context.workspaceState);
+    const runHistory = new RunHistory(context.workspaceState);
+    context.subscriptions.push(runHistory);
 
-    resultsServiceManager = new ResultsServiceManager(workspaceRoot);
-    testRunner = new TestRunner(workspaceRoot);
+    // Record every finished run, whichever entry point or folder started it
+    context.subscriptions.push(
+        workspaces.onDidFinishRun(result => runHistory.add(result))
+    );
+
+    const resultsViewer = new ResultsViewer(workspaces);
+    context.subscriptions.push(resultsViewer);
+
+    // Opens on Docker runs by itself; the command and the view open it on demand
+    const vncViewer = new VncViewer(workspaces);
+    context.subscriptions.push(vncViewer);
 
     const provider = new RFTestRunnerViewProvider(
         context.extensionUri,
-        workspaceRoot,
-        resultsServiceManager,
-        testRunner
+        workspaces,
+        runHistory,
+        resultsViewer,
+        vncViewer
+    );
+
+    const testController = new RFTestController(
+        workspaces,
+        workspace => provider.getConfigFor(workspace)
+    );
+    context.subscriptions.push(testController);
+
+    // Failures of the last run show up in the Problems panel until the next run starts
+    context.subscriptions.push(new FailureDiagnostics(workspaces));
+
+    const codeLens = new RFCodeLensProvider(workspaces);
+    context.subscriptions.push(
+        codeLens,
+        vscode.languages.registerCodeLensProvider({ scheme: 'file', pattern: SUITE_FILE_GLOB }, codeLens)
     );
 
-    // Set up the status change callback after the provider is created
-    testRunner.setOnStatusChange((running: boolean) => {
-        provider.updateRunnerStatusForTestRunner(running);
-    });
+    /**
+     * Build the config for running a suite file, or one test case of it, from the editor
+     */
+    const editorRunConfig = (uri: vscode.Uri, testName: string | undefined) => {
+        const workspace = workspaces.getForUri(uri);
+        if (!workspace) {
+            vscode.window.showWarningMessage('The file is not part of an open workspace folder');
+            return undefined;
+        }
+
+        const config: TestConfig = {
+            ...provider.getConfigFor(workspace),
+            selections: [],
+            customTestPath: path.relative(workspace.root, uri.fsPath),
+            testCaseNames: testName ? [testName] : [],
+            rerunFailed: '',
+            debugFile: ''
+        };
+        return { workspace, config };
+    };
+
+    // The view shows the runner status of the selected folder only
+    context.subscriptions.push(
+        workspaces.onDidChangeRunnerStatus(({ workspace, running }) => {
+            if (workspace === workspaces.active) {
+                provider.updateRunnerStatusForTestRunner(running);
+            }
+        })
+    );
+
+    // Folders added to or removed from the workspace bring or take their tests with them
+    context.subscriptions.push(
+        workspaces.onDidChangeWorkspaces(() => {
+            provider.refreshTestList();
+            testController.refresh();
+            codeLens.refresh();
+        })
+    );
 
     context.subscriptions.push(
         vscode.window.registerWebviewViewProvider(
@@ -45,6 +116,20 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('rfTestRunner.showResults', () => {
+            resultsViewer.show();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('rfTestRunner.showVnc', () => {
+            if (workspaces.active) {
+                vncViewer.show(workspaces.active);
+            }
+        })
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand('rfTestRunner.runTests', () => {
             provider.runTests('docker');
@@ -57,15 +142,118 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('rfTestRunner.runProfile', async (name?: string, mode?: 'docker' | 'local') => {
+            const workspace = workspaces.active;
+            if (!workspace) {
+                vscode.window.showWarningMessage('Open a workspace folder to run Robot Framework tests');
+                return;
+            }
+            const profiles = workspace.profiles;
+
+            if (!name) {
+                if (profiles.names.length === 0) {
+                    vscode.window.showInformationMessage('No configuration profiles have been created yet');
+                    return;
+                }
+                name = await vscode.window.showQuickPick(profiles.names, { placeHolder: 'Select a profile to run' });
+            }
+            if (!name) {
+                return;
+            }
+
+            const config = profiles.getConfig(name);
+            if (!config) {
+                vscode.window.showErrorMessage(`Profile "${name}" does not exist`);
+                return;
+            }
+
+            if (!mode) {
+                const picked = await vscode.window.showQuickPick(
+                    [{ label: 'Docker', mode: 'docker' as const }, { label: 'Local', mode: 'local' as const }],
+                    { placeHolder: `Run "${name}" in` }
+                );
+                mode = picked?.mode;
+            }
+            if (mode) {
+                await workspace.testRunner.run(mode, config);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('rfTestRunner.rerunFailed', () => {
+            provider.rerunFailedTests();
+        })
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand('rfTestRunner.refreshTests', () => {
             provider.refreshTestList();
+            testController.refresh();
+            codeLens.refresh();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('rfTestRunner.runTest', async (uri: vscode.Uri, testName?: string, mode?: 'docker' | 'local') => {
+            const run = editorRunConfig(uri, testName);
+            if (run) {
+                await run.workspace.testRunner.run(mode ?? 'local', run.config);
+            }
+        })
+    );
+
+    // Debug runs go through the Robot debug adapter; without it a TRACE run with Robot's
+    // --debugfile is offered instead, and the debug log is opened afterwards
+    context.subscriptions.push(
+        vscode.commands.registerCommand('rfTestRunner.debugTest', async (uri: vscode.Uri, testName?: string) => {
+            const run = editorRunConfig(uri, testName);
+            if (!run) {
+                return;
+            }
+
+            if (isDebugAdapterInstalled()) {
+                await run.workspace.testRunner.debug(run.config);
+                return;
+            }
+
+            const choice = await vscode.window.showWarningMessage(
+                'Debugging with breakpoints needs the RobotCode extension',
+                'Show Extension',
+                'Run with Debug Log'
+            );
+            if (choice === 'Show Extension') {
+                vscode.commands.executeCommand('workbench.extensions.search', DEBUG_EXTENSION_ID);
+            }
+            if (choice !== 'Run with Debug Log') {
+                return;
+            }
+
+            const testRunner = run.workspace.testRunner;
+            const runId = await testRunner.run('local', { ...run.config, logLevel: 'TRACE', debugFile: 'debug.log' });
+            const result = runId === undefined ? undefined : await testRunner.whenFinished(runId);
+            const debugFile = result?.results && path.join(path.dirname(result.results.outputPath), 'debug.log');
+            if (debugFile && fs.existsSync(debugFile)) {
+                await vscode.window.showTextDocument(vscode.Uri.file(debugFile), { preview: true });
+            }
+        })
+    );
+
+    // Rediscover tests when the test roots or suite file patterns change
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (['testRoots', 'include', 'exclude'].some(key => event.affectsConfiguration(`rfTestRunner.${key}`))) {
+                provider.refreshTestList();
+                testController.refresh();
+                codeLens.refresh();
+            }
         })
     );
 }
 
 export function deactivate() {
-    if (resultsServiceManager) {
-        resultsServiceManager.stop();
+    if (workspaces) {
+        workspaces.dispose();
     }
 }
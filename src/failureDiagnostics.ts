@@ -0,0 +1,155 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { RobotTestResult, isResultFor } from './outputParser';
+import { RobotKeywordCall, RobotSuiteModel } from './robotParser';
+import { RunResult } from './testRunner';
+import { collectSuites } from './testDiscovery';
+import { RobotWorkspace, WorkspaceManager } from './workspaceManager';
+
+function normalizeKeyword(name: string): string {
+    return name.toLowerCase().replace(/[\s_]/g, '');
+}
+
+/**
+ * Keyword names match ignoring case, spaces and underscores, with or without a library prefix
+ */
+function sameKeyword(call: string, recorded: string): boolean {
+    const a = normalizeKeyword(call);
+    const b = normalizeKeyword(recorded);
+    return a === b || a.endsWith(`.${b}`) || b.endsWith(`.${a}`);
+}
+
+/**
+ * Range covering the text of a line, without its indentation
+ */
+function lineRange(lines: string[], line: number): vscode.Range {
+    const text = lines[line] ?? '';
+    const start = Math.max(0, text.search(/\S/));
+    return new vscode.Range(line, start, line, Math.max(start, text.trimEnd().length));
+}
+
+/**
+ * Shows the failed tests of the last run in the Problems panel, on the failing test
+ * case and, when it can be located, on the keyword call that failed
+ */
+export class FailureDiagnostics implements vscode.Disposable {
+    private readonly collection = vscode.languages.createDiagnosticCollection('rfTestRunner');
+    private readonly listeners: vscode.Disposable[];
+    // Files holding diagnostics, per workspace folder path
+    private readonly files = new Map<string, vscode.Uri[]>();
+
+    constructor(private readonly workspaces: WorkspaceManager) {
+        this.listeners = [
+            this.workspaces.onDidChangeRunnerStatus(({ workspace, running }) => {
+                if (running) {
+                    this.clear(workspace.root);
+                }
+            }),
+            this.workspaces.onDidFinishRun(result => this.update(result))
+        ];
+    }
+
+    private clear(workspaceRoot: string) {
+        for (const uri of this.files.get(workspaceRoot) ?? []) {
+            this.collection.delete(uri);
+        }
+        this.files.delete(workspaceRoot);
+    }
+
+    private update(result: RunResult) {
+        this.clear(result.workspaceRoot);
+
+        const workspace = this.workspaces.workspaces.find(candidate => candidate.root === result.workspaceRoot);
+        const failed = result.results?.tests.filter(test => test.status === 'FAIL') ?? [];
+        if (!workspace || failed.length === 0) {
+            return;
+        }
+
+        const uris: vscode.Uri[] = [];
+        for (const suite of collectSuites(workspace.discovery.items).values()) {
+            const diagnostics: vscode.Diagnostic[] = [];
+            let lines: string[] | undefined;
+
+            for (const test of suite.children ?? []) {
+                const testResult = failed.find(candidate => isResultFor(candidate, suite.path, test.testName ?? ''));
+                if (!testResult || test.line === undefined) {
+                    continue;
+                }
+
+                lines = lines ?? this.readLines(workspace, suite.path);
+                diagnostics.push(...this.createDiagnostics(workspace, suite.path, test.line, testResult, lines));
+            }
+
+            if (diagnostics.length > 0) {
+                const uri = vscode.Uri.file(path.join(workspace.root, suite.path));
+                this.collection.set(uri, diagnostics);
+                uris.push(uri);
+            }
+        }
+
+        this.files.set(workspace.root, uris);
+    }
+
+    private createDiagnostics(
+        workspace: RobotWorkspace,
+        suitePath: string,
+        testLine: number,
+        testResult: RobotTestResult,
+        lines: string[]
+    ): vscode.Diagnostic[] {
+        const message = testResult.message || 'Test failed';
+        const testDiagnostic = new vscode.Diagnostic(
+            lineRange(lines, testLine),
+            `${testResult.name} failed: ${message}`,
+            vscode.DiagnosticSeverity.Error
+        );
+        testDiagnostic.source = 'Robot Framework';
+        const diagnostics = [testDiagnostic];
+
+        const call = this.findFailedCall(workspace.discovery.getSuiteModel(suitePath), testResult);
+        if (call && call.line !== testLine) {
+            const keywordDiagnostic = new vscode.Diagnostic(lineRange(lines, call.line), message, vscode.DiagnosticSeverity.Error);
+            keywordDiagnostic.source = 'Robot Framework';
+            diagnostics.push(keywordDiagnostic);
+        }
+
+        return diagnostics;
+    }
+
+    /**
+     * Locate the keyword call a test failed in; setups and teardowns may come from the suite settings
+     */
+    private findFailedCall(model: RobotSuiteModel | undefined, testResult: RobotTestResult): RobotKeywordCall | undefined {
+        const failure = testResult.failure;
+        const test = model?.tests.find(candidate => candidate.name === testResult.name);
+        if (!model || !test || !failure) {
+            return undefined;
+        }
+
+        let calls: (RobotKeywordCall | undefined)[];
+        if (failure.phase === 'setup') {
+            calls = [test.setup ?? model.testSetup];
+        } else if (failure.phase === 'teardown') {
+            calls = [test.teardown ?? model.testTeardown];
+        } else {
+            calls = test.body;
+        }
+
+        const matching = calls.filter((call): call is RobotKeywordCall => !!call && sameKeyword(call.name, failure.keyword));
+        return matching[failure.occurrence];
+    }
+
+    private readLines(workspace: RobotWorkspace, suitePath: string): string[] {
+        try {
+            return fs.readFileSync(path.join(workspace.root, suitePath), 'utf-8').split(/\r?\n/);
+        } catch {
+            return [];
+        }
+    }
+
+    dispose() {
+        this.listeners.forEach(listener => listener.dispose());
+        this.collection.dispose();
+    }
+}
@@ -0,0 +1,372 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type RobotStatus = 'PASS' | 'FAIL' | 'SKIP' | 'NOT RUN';
+
+export interface RobotFailure {
+    phase: 'setup' | 'body' | 'teardown';
+    keyword: string;     // Name of the failing top-level keyword as written in output.xml
+    occurrence: number;  // Zero-based index among the keywords of the phase with that name
+}
+
+export interface RobotTestResult {
+    id: string;
+    name: string;
+    longName: string;
+    source: string;      // Source file of the owning suite
+    line?: number;       // One-based line reported by Robot Framework 6+
+    status: RobotStatus;
+    message: string;
+    tags: string[];
+    elapsedMs: number;
+    failure?: RobotFailure;  // Failing keyword of a failed test, when one is recorded
+}
+
+export interface RobotSuiteResult {
+    id: string;
+    name: string;
+    longName: string;
+    source: string;
+    status: RobotStatus;
+    message: string;
+    elapsedMs: number;
+    suites: RobotSuiteResult[];
+    tests: RobotTestResult[];
+}
+
+export interface RobotStat {
+    name: string;
+    pass: number;
+    fail: number;
+    skip: number;
+}
+
+export interface RobotStatistics {
+    total: RobotStat;
+    tags: RobotStat[];
+    suites: RobotStat[];  // Named by the suite's long name
+}
+
+export interface RobotResults {
+    outputPath: string;
+    suite: RobotSuiteResult;
+    tests: RobotTestResult[];  // All tests, flattened in execution order
+    statistics: RobotStatistics;
+    passed: number;
+    failed: number;
+    skipped: number;
+}
+
+export interface XmlElement {
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    text: string;
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: '\'' };
+
+function decodeEntities(value: string): string {
+    return value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+        if (entity.startsWith('#x')) {
+            return String.fromCodePoint(parseInt(entity.slice(2), 16));
+        }
+        if (entity.startsWith('#')) {
+            return String.fromCodePoint(parseInt(entity.slice(1), 10));
+        }
+        return ENTITIES[entity] ?? match;
+    });
+}
+
+/**
+ * Minimal XML reader, sufficient for the well-formed files Robot Framework writes
+ */
+export function parseXml(content: string): XmlElement {
+    const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+    const stack: XmlElement[] = [root];
+    const tagPattern = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<!DOCTYPE[^>]*>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+    const attrPattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = tagPattern.exec(content)) !== null) {
+        const current = stack[stack.length - 1];
+        if (match.index > lastIndex) {
+            current.text += decodeEntities(content.slice(lastIndex, match.index));
+        }
+        lastIndex = tagPattern.lastIndex;
+
+        const [, cdata, closing, name, attrs, selfClosing] = match;
+        if (cdata !== undefined) {
+            current.text += cdata;
+        } else if (!name) {
+            // Comment, processing instruction or doctype
+            continue;
+        } else if (closing) {
+            if (stack.length > 1) {
+                stack.pop();
+            }
+        } else {
+            const element: XmlElement = { name, attributes: {}, children: [], text: '' };
+            let attr: RegExpExecArray | null;
+            attrPattern.lastIndex = 0;
+            while ((attr = attrPattern.exec(attrs)) !== null) {
+                element.attributes[attr[1]] = decodeEntities(attr[2] ?? attr[3] ?? '');
+            }
+            current.children.push(element);
+            if (!selfClosing) {
+                stack.push(element);
+            }
+        }
+    }
+
+    return root;
+}
+
+function child(element: XmlElement, name: string): XmlElement | undefined {
+    return element.children.find(c => c.name === name);
+}
+
+function childrenNamed(element: XmlElement, name: string): XmlElement[] {
+    return element.children.filter(c => c.name === name);
+}
+
+/**
+ * Parse a Robot Framework 3.x-6.x timestamp ("20240131 12:34:56.789")
+ */
+function parseLegacyTimestamp(value: string | undefined): number | undefined {
+    const match = value?.match(/^(\d{4})(\d{2})(\d{2}) (\d{2}):(\d{2}):(\d{2})\.(\d{3})$/);
+    if (!match) {
+        return undefined;
+    }
+    const [, y, mo, d, h, mi, s, ms] = match.map(Number);
+    return new Date(y, mo - 1, d, h, mi, s, ms).getTime();
+}
+
+function elapsedFromStatus(status: XmlElement | undefined): number {
+    if (!status) {
+        return 0;
+    }
+    // Robot Framework 7 reports elapsed seconds directly
+    if (status.attributes.elapsed !== undefined) {
+        return Math.round(parseFloat(status.attributes.elapsed) * 1000);
+    }
+    const start = parseLegacyTimestamp(status.attributes.starttime);
+    const end = parseLegacyTimestamp(status.attributes.endtime);
+    return start !== undefined && end !== undefined ? end - start : 0;
+}
+
+function toStatus(value: string | undefined): RobotStatus {
+    return value === 'PASS' || value === 'FAIL' || value === 'SKIP' ? value : 'NOT RUN';
+}
+
+/**
+ * Find the top-level keyword (setup, body keyword or teardown) a test failed in
+ */
+function findFailure(test: XmlElement): RobotFailure | undefined {
+    const seen = new Map<string, number>();
+
+    for (const kw of childrenNamed(test, 'kw')) {
+        // Robot Framework 7 writes SETUP/TEARDOWN, older versions setup/teardown
+        const type = (kw.attributes.type ?? '').toLowerCase();
+        const phase = type === 'setup' || type === 'teardown' ? type : 'body';
+        const name = kw.attributes.name ?? '';
+        const key = `${phase}:${name}`;
+        const occurrence = seen.get(key) ?? 0;
+        seen.set(key, occurrence + 1);
+
+        if (child(kw, 'status')?.attributes.status === 'FAIL') {
+            return { phase, keyword: name, occurrence };
+        }
+    }
+
+    return undefined;
+}
+
+function readTest(element: XmlElement, suite: RobotSuiteResult): RobotTestResult {
+    const status = child(element, 'status');
+    // Robot Framework 7 writes <tag> directly under <test>, older versions wrap them in <tags>
+    const tagsElement = child(element, 'tags') ?? element;
+    const name = element.attributes.name ?? '';
+
+    return {
+        id: element.attributes.id ?? '',
+        name,
+        longName: `${suite.longName}.${name}`,
+        source: suite.source,
+        line: element.attributes.line ? parseInt(element.attributes.line, 10) : undefined,
+        status: toStatus(status?.attributes.status),
+        message: status?.text.trim() ?? '',
+        tags: childrenNamed(tagsElement, 'tag').map(tag => tag.text.trim()),
+        elapsedMs: elapsedFromStatus(status),
+        failure: status?.attributes.status === 'FAIL' ? findFailure(element) : undefined
+    };
+}
+
+function readSuite(element: XmlElement, parent?: RobotSuiteResult): RobotSuiteResult {
+    const status = child(element, 'status');
+    const name = element.attributes.name ?? '';
+    const suite: RobotSuiteResult = {
+        id: element.attributes.id ?? '',
+        name,
+        longName: parent ? `${parent.longName}.${name}` : name,
+        source: element.attributes.source ?? '',
+        status: toStatus(status?.attributes.status),
+        message: status?.text.trim() ?? '',
+        elapsedMs: elapsedFromStatus(status),
+        suites: [],
+        tests: []
+    };
+
+    for (const c of element.children) {
+        if (c.name === 'suite') {
+            suite.suites.push(readSuite(c, suite));
+        } else if (c.name === 'test') {
+            suite.tests.push(readTest(c, suite));
+        }
+    }
+
+    return suite;
+}
+
+function flattenTests(suite: RobotSuiteResult, result: RobotTestResult[] = []): RobotTestResult[] {
+    result.push(...suite.tests);
+    for (const s of suite.suites) {
+        flattenTests(s, result);
+    }
+    return result;
+}
+
+function countStatuses(name: string, tests: RobotTestResult[]): RobotStat {
+    return {
+        name,
+        pass: tests.filter(t => t.status === 'PASS').length,
+        fail: tests.filter(t => t.status === 'FAIL').length,
+        skip: tests.filter(t => t.status === 'SKIP').length
+    };
+}
+
+function readStat(stat: XmlElement): RobotStat {
+    return {
+        name: stat.text.trim(),
+        pass: parseInt(stat.attributes.pass ?? '0', 10),
+        fail: parseInt(stat.attributes.fail ?? '0', 10),
+        // Robot Framework 3 has no skip status
+        skip: parseInt(stat.attributes.skip ?? '0', 10)
+    };
+}
+
+/**
+ * Read the totals, tag and suite statistics Robot writes at the end of output.xml.
+ * Outputs of interrupted runs have none, so they are counted from the tests instead.
+ */
+function readStatistics(robot: XmlElement, suite: RobotSuiteResult, tests: RobotTestResult[]): RobotStatistics {
+    const statistics = child(robot, 'statistics');
+    if (statistics) {
+        // Robot Framework 3 lists "Critical Tests" before "All Tests"
+        const totals = childrenNamed(child(statistics, 'total') ?? statistics, 'stat').map(readStat);
+        return {
+            total: totals[totals.length - 1] ?? countStatuses('All Tests', tests),
+            tags: childrenNamed(child(statistics, 'tag') ?? statistics, 'stat').map(readStat),
+            suites: childrenNamed(child(statistics, 'suite') ?? statistics, 'stat').map(readStat)
+        };
+    }
+
+    const tagNames = Array.from(new Set(tests.flatMap(test => test.tags))).sort();
+    const suites: RobotStat[] = [];
+    const visit = (s: RobotSuiteResult) => {
+        suites.push(countStatuses(s.longName, flattenTests(s)));
+        s.suites.forEach(visit);
+    };
+    visit(suite);
+
+    return {
+        total: countStatuses('All Tests', tests),
+        tags: tagNames.map(tag => countStatuses(tag, tests.filter(test => test.tags.includes(tag)))),
+        suites
+    };
+}
+
+/**
+ * Parse a Robot Framework output.xml into suites and per-test results
+ */
+export function parseOutputXml(outputPath: string): RobotResults {
+    const document = parseXml(fs.readFileSync(outputPath, 'utf-8'));
+    const robot = child(document, 'robot');
+    const suiteElement = robot ? child(robot, 'suite') : undefined;
+
+    if (!robot || !suiteElement) {
+        throw new Error(`No test suite found in ${outputPath}`);
+    }
+
+    const suite = readSuite(suiteElement);
+    const tests = flattenTests(suite);
+
+    return {
+        outputPath,
+        suite,
+        tests,
+        statistics: readStatistics(robot, suite, tests),
+        passed: tests.filter(t => t.status === 'PASS').length,
+        failed: tests.filter(t => t.status === 'FAIL').length,
+        skipped: tests.filter(t => t.status === 'SKIP').length
+    };
+}
+
+/**
+ * Whether a result belongs to a test of the given workspace-relative suite file. Result
+ * sources are absolute (and container paths in Docker mode), so match on the path suffix.
+ */
+export function isResultFor(result: RobotTestResult, suitePath: string, testName: string): boolean {
+    const suffix = suitePath.split(path.sep).join('/');
+    return result.name === testName && result.source.split(path.sep).join('/').endsWith(suffix);
+}
+
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git', '.venv', 'venv', '__pycache__']);
+
+export interface OutputFile {
+    file: string;
+    mtime: number;
+}
+
+/**
+ * Find the output.xml files below the workspace root, newest first
+ */
+export function findOutputXmls(workspaceRoot: string, maxDepth: number = 5): OutputFile[] {
+    const found: OutputFile[] = [];
+
+    const visit = (dir: string, depth: number) => {
+        let entries: fs.Dirent[];
+        try {
+            entries = fs.readdirSync(dir, { withFileTypes: true });
+        } catch {
+            return;
+        }
+
+        for (const entry of entries) {
+            const fullPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                if (depth < maxDepth && !SKIPPED_DIRECTORIES.has(entry.name)) {
+                    visit(fullPath, depth + 1);
+                }
+            } else if (entry.name === 'output.xml') {
+                try {
+                    found.push({ file: fullPath, mtime: fs.statSync(fullPath).mtimeMs });
+                } catch {
+                    // File vanished while scanning
+                }
+            }
+        }
+    };
+
+    visit(workspaceRoot, 0);
+    return found.sort((a, b) => b.mtime - a.mtime);
+}
+
+/**
+ * Find the most recently written output.xml below the workspace root.
+ * Only files modified at or after `since` are considered.
+ */
+export function findLatestOutputXml(workspaceRoot: string, since: number, maxDepth: number = 5): string | undefined {
+    return findOutputXmls(workspaceRoot, maxDepth).find(output => output.mtime >= since)?.file;
+}
@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+import { TestConfig, defaultConfig } from './testRunner';
+
+/**
+ * Named TestConfig profiles stored in the rfTestRunner.profiles setting
+ */
+export class ProfileManager {
+    /**
+     * @param scope Workspace folder whose settings hold the profiles
+     * @param target Settings file profile changes are written to
+     */
+    constructor(
+        private readonly scope?: vscode.Uri,
+        private readonly target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Workspace
+    ) {}
+
+    private get settings(): vscode.WorkspaceConfiguration {
+        return vscode.workspace.getConfiguration('rfTestRunner', this.scope);
+    }
+
+    get profiles(): Record<string, Partial<TestConfig>> {
+        return this.settings.get<Record<string, Partial<TestConfig>>>('profiles', {});
+    }
+
+    get names(): string[] {
+        return Object.keys(this.profiles).sort((a, b) => a.localeCompare(b));
+    }
+
+    get defaultProfile(): string | undefined {
+        const name = this.settings.get<string>('defaultProfile', '');
+        return name && this.has(name) ? name : undefined;
+    }
+
+    /**
+     * Whether a profile of that name is saved. Own keys only: names such as "toString" or
+     * "constructor" are inherited by every object and are no profile.
+     */
+    has(name: string): boolean {
+        return Object.prototype.hasOwnProperty.call(this.profiles, name);
+    }
+
+    /**
+     * Resolve a profile to a complete TestConfig, filling gaps from the defaults
+     */
+    getConfig(name: string): TestConfig | undefined {
+        const profile = this.has(name) ? this.profiles[name] : undefined;
+        return profile && typeof profile === 'object'
+            ? { ...defaultConfig, ...profile, rerunFailed: '', debugFile: '' }
+            : undefined;
+    }
+
+    async save(name: string, config: TestConfig): Promise<void> {
+        // Reruns and debug runs are transient and never belong in a saved profile
+        const { rerunFailed: _rerunFailed, debugFile: _debugFile, ...profile } = config;
+        await this.update({ ...this.profiles, [name]: profile });
+    }
+
+    async duplicate(source: string, target: string): Promise<void> {
+        const profile = this.has(source) ? this.profiles[source] : undefined;
+        if (!profile) {
+            throw new Error(`Profile "${source}" does not exist`);
+        }
+        this.assertAvailable(target);
+        await this.update({ ...this.profiles, [target]: { ...profile } });
+    }
+
+    async rename(oldName: string, newName: string): Promise<void> {
+        const profiles = { ...this.profiles };
+        if (!this.has(oldName)) {
+            throw new Error(`Profile "${oldName}" does not exist`);
+        }
+        this.assertAvailable(newName);
+
+        const wasDefault = this.defaultProfile === oldName;
+        profiles[newName] = profiles[oldName];
+        delete profiles[oldName];
+        await this.update(profiles);
+
+        if (wasDefault) {
+            await this.setDefault(newName);
+        }
+    }
+
+    async delete(name: string): Promise<void> {
+        const wasDefault = this.defaultProfile === name;
+        const profiles = { ...this.profiles };
+        delete profiles[name];
+        await this.update(profiles);
+
+        if (wasDefault) {
+            await this.setDefault(undefined);
+        }
+    }
+
+    async setDefault(name: string | undefined): Promise<void> {
+        await this.settings.update('defaultProfile', name ?? '', this.target);
+    }
+
+    private assertAvailable(name: string) {
+        if (!name.trim()) {
+            throw new Error('Profile name cannot be empty');
+        }
+        if (this.has(name)) {
+            throw new Error(`Profile "${name}" already exists`);
+        }
+    }
+
+    private async update(profiles: Record<string, Partial<TestConfig>>): Promise<void> {
+        await this.settings.update('profiles', profiles, this.target);
+    }
+}
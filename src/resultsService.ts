@@ -1,21 +1,173 @@
 import * as vscode from 'vscode';
 import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as net from 'net';
 import * as path from 'path';
+import { StaticResultsServer } from './staticServer';
+
+// Records the results server started by serve_results.sh, so a server left running by an
+// earlier session can be told apart from other programs using the port
+const MARKER_FILE = path.join('.rf-test-runner', 'results-service.json');
+
+interface ServiceMarker {
+    pid: number;        // Process group of serve_results.sh
+    port: number;
+    startedAt: number;  // Start time of the process, to detect PID reuse
+}
+
+export type ServiceStatus = 'stopped' | 'starting' | 'running' | 'unreachable';
+
+/**
+ * Whether an HTTP server answers on the port; any response counts
+ */
+function probe(port: number, timeoutMs: number): Promise<boolean> {
+    return new Promise(resolve => {
+        const request = http.get({ host: '127.0.0.1', port, path: '/', timeout: timeoutMs }, response => {
+            response.resume();
+            resolve(true);
+        });
+        request.on('timeout', () => request.destroy());
+        request.on('error', () => resolve(false));
+    });
+}
+
+/**
+ * Poll the port until the server answers, the timeout passes or the server has exited
+ */
+async function waitUntilReady(port: number, timeoutMs: number, hasExited: () => boolean): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline && !hasExited()) {
+        if (await probe(port, 1000)) {
+            return true;
+        }
+        await new Promise(resolve => setTimeout(resolve, 250));
+    }
+    return false;
+}
+
+/**
+ * Whether the port accepts connections. Health checks connect without sending a request,
+ * so they do not fill the server's access log.
+ */
+function canConnect(port: number, timeoutMs: number): Promise<boolean> {
+    return new Promise(resolve => {
+        const socket = net.connect({ host: '127.0.0.1', port, timeout: timeoutMs });
+        socket.once('connect', () => {
+            socket.destroy();
+            resolve(true);
+        });
+        socket.once('timeout', () => {
+            socket.destroy();
+            resolve(false);
+        });
+        socket.once('error', () => resolve(false));
+    });
+}
+
+function isPortFree(port: number): Promise<boolean> {
+    return new Promise(resolve => {
+        const probe = net.createServer();
+        probe.once('error', () => resolve(false));
+        // Without a host the probe covers every interface, like http.server does
+        probe.listen(port, () => probe.close(() => resolve(true)));
+    });
+}
+
+async function findFreePort(from: number, attempts: number = 50): Promise<number | undefined> {
+    for (let port = from; port < from + attempts && port <= 65535; port++) {
+        if (await isPortFree(port)) {
+            return port;
+        }
+    }
+    return undefined;
+}
+
+function isAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error: any) {
+        // EPERM: the process exists but belongs to someone else
+        return error.code === 'EPERM';
+    }
+}
+
+/**
+ * Whether the marked process is still the one that was started, so a reused PID is never
+ * mistaken for it. The script may exec the server, so its command line is not compared.
+ */
+function isMarkedProcess(marker: ServiceMarker): boolean {
+    try {
+        const started = cp.execFileSync('ps', ['-p', String(marker.pid), '-o', 'lstart='], { encoding: 'utf-8', stdio: 'pipe' });
+        // lstart has a resolution of one second
+        return Math.abs(new Date(started.trim()).getTime() - marker.startedAt) < 3000;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Terminate a process group, escalating to SIGKILL when it is still alive after a grace period
+ */
+async function killProcessGroup(pid: number, graceMs: number = 2000): Promise<void> {
+    const signal = (name: NodeJS.Signals) => {
+        try {
+            process.kill(-pid, name);
+        } catch {
+            // Not a group leader (or gone already): signal the process itself
+            try {
+                process.kill(pid, name);
+            } catch {
+                // Already exited
+            }
+        }
+    };
+
+    signal('SIGTERM');
+    for (let waited = 0; waited < graceMs && isAlive(pid); waited += 100) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    if (isAlive(pid)) {
+        signal('SIGKILL');
+    }
+}
 
 export class ResultsServiceManager {
     private process: cp.ChildProcess | null = null;
+    private builtinServer?: StaticResultsServer;
     private outputChannel: vscode.OutputChannel;
     private workspaceRoot: string;
-    private _isRunning: boolean = false;
+    private _status: ServiceStatus = 'stopped';
     private _port: number = 8080;
+    private healthTimer?: NodeJS.Timeout;
+    // Set while the manager itself stops the server, so the exit is not treated as a crash
+    private stopping = false;
+    // Set by stop() until the next start, so a server stopped while starting or restarting
+    // is neither reported as failed nor restarted
+    private stopRequested = false;
+    private restarts = 0;
+    private static readonly maxRestarts = 3;
+    // Consecutive failed probes before an unreachable server counts as failed
+    private static readonly unhealthyProbes = 3;
+    private readonly _onDidChangeStatus = new vscode.EventEmitter<ServiceStatus>();
+
+    readonly onDidChangeStatus = this._onDidChangeStatus.event;
 
-    constructor(workspaceRoot: string) {
+    constructor(workspaceRoot: string, label?: string) {
         this.workspaceRoot = workspaceRoot;
-        this.outputChannel = vscode.window.createOutputChannel('RF Results Service');
+        this.outputChannel = vscode.window.createOutputChannel(label ? `RF Results Service (${label})` : 'RF Results Service');
     }
 
+    get status(): ServiceStatus {
+        return this._status;
+    }
+
+    /**
+     * True from the start until the service is stopped, also while it is unreachable
+     */
     get isRunning(): boolean {
-        return this._isRunning;
+        return this._status !== 'stopped';
     }
 
     get port(): number {
@@ -26,199 +178,367 @@ export class ResultsServiceManager {
         this._port = value;
     }
 
+    private get markerFile(): string {
+        return path.join(this.workspaceRoot, MARKER_FILE);
+    }
+
+    private readMarker(): ServiceMarker | undefined {
+        try {
+            return JSON.parse(fs.readFileSync(this.markerFile, 'utf-8')) as ServiceMarker;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private writeMarker(marker: ServiceMarker) {
+        try {
+            fs.mkdirSync(path.dirname(this.markerFile), { recursive: true });
+            fs.writeFileSync(this.markerFile, JSON.stringify(marker));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            this.outputChannel.appendLine(`Could not write ${this.markerFile}: ${message}`);
+        }
+    }
+
+    private removeMarker() {
+        fs.rmSync(this.markerFile, { force: true });
+    }
+
     /**
-     * Check if a port is in use and kill the process if necessary
+     * Make sure the port can be used. A results server this folder started earlier (for
+     * example before VS Code was reloaded) is stopped; any other process is left alone and
+     * the next free port is offered instead. Resolves to undefined when the user aborts.
      */
-    private async killProcessOnPort(port: number): Promise<void> {
-        try {
-            // Check if the port is in use with lsof command (macOS/Linux)
-            const result = cp.execSync(`lsof -i :${port} -t`, { encoding: 'utf-8', stdio: 'pipe' });
-            const pids = result.trim().split('\n').filter(pid => pid.length > 0);
-
-            if (pids.length > 0) {
-                this.outputChannel.appendLine(`Found process(es) using port ${port}: ${pids.join(', ')}`);
-
-                // Kill the processes using the port
-                for (const pid of pids) {
-                    try {
-                        process.kill(parseInt(pid), 'SIGTERM');
-                        this.outputChannel.appendLine(`Sent SIGTERM to process ${pid}`);
-                    } catch (killError: any) {
-                        if (killError.code === 'ESRCH') {
-                            // Process already gone, continue
-                            this.outputChannel.appendLine(`Process ${pid} was already terminated`);
-                        } else {
-                            // Try with SIGKILL if SIGTERM failed
-                            try {
-                                cp.execSync(`kill -9 ${pid}`, { stdio: 'ignore' });
-                                this.outputChannel.appendLine(`Sent SIGKILL to process ${pid}`);
-                            } catch (killError2) {
-                                this.outputChannel.appendLine(`Could not kill process ${pid}: ${killError2}`);
-                            }
-                        }
-                    }
-                }
+    private async resolvePort(port: number): Promise<number | undefined> {
+        if (await isPortFree(port)) {
+            return port;
+        }
 
-                // Wait a bit for processes to terminate
-                await new Promise(resolve => setTimeout(resolve, 1000));
-            }
-        } catch (error: any) {
-            // lsof command failed, which means the port is likely not in use
-            // This is expected when no process is using the port
-            if (error.status !== 1 || !error.stdout.includes('No matching')) {
-                // Just log it as info, not as error since it's expected behavior when port is not used
-                this.outputChannel.appendLine(`Port ${port} is not currently in use or lsof command not available`);
+        const marker = this.readMarker();
+        if (marker?.port === port && isMarkedProcess(marker)) {
+            this.outputChannel.appendLine(`Port ${port} is held by the previous results service (PID ${marker.pid}), stopping it`);
+            await killProcessGroup(marker.pid);
+            this.removeMarker();
+            if (await isPortFree(port)) {
+                return port;
             }
         }
+
+        const freePort = await findFreePort(port + 1);
+        if (freePort === undefined) {
+            vscode.window.showErrorMessage(`Port ${port} is in use and no free port was found after it`);
+            return undefined;
+        }
+
+        this.outputChannel.appendLine(`Port ${port} is in use by another process`);
+        const settings = vscode.workspace.getConfiguration('rfTestRunner', vscode.Uri.file(this.workspaceRoot));
+        switch (settings.get<string>('resultsPortConflict', 'ask')) {
+            case 'nextFreePort':
+                return freePort;
+            case 'abort':
+                vscode.window.showWarningMessage(`Port ${port} is in use by another process`);
+                return undefined;
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            `Port ${port} is in use by another process. Start the results service on port ${freePort} instead?`,
+            `Use Port ${freePort}`,
+            'Cancel'
+        );
+        return choice === `Use Port ${freePort}` ? freePort : undefined;
+    }
+
+    private setStatus(status: ServiceStatus) {
+        if (status !== this._status) {
+            this._status = status;
+            this._onDidChangeStatus.fire(status);
+        }
+    }
+
+    private get settings(): vscode.WorkspaceConfiguration {
+        return vscode.workspace.getConfiguration('rfTestRunner', vscode.Uri.file(this.workspaceRoot));
     }
 
     async start(port?: number): Promise<boolean> {
-        if (this._isRunning) {
+        if (this.isRunning) {
             vscode.window.showWarningMessage('Results service is already running');
             return false;
         }
 
-        const actualPort = port || this._port;
+        this.restarts = 0;
+        this.stopRequested = false;
+        return this.launch(port || this._port, true);
+    }
+
+    /**
+     * Start the configured server and wait until it answers HTTP requests
+     */
+    private async launch(requestedPort: number, openBrowser: boolean): Promise<boolean> {
+        this.setStatus('starting');
+        const actualPort = await this.resolvePort(requestedPort);
+        if (actualPort === undefined || this.stopRequested) {
+            this.setStatus('stopped');
+            return false;
+        }
         this._port = actualPort;
 
-        // Check if the port is already in use and try to kill the process
-        await this.killProcessOnPort(actualPort);
+        const started = this.settings.get<string>('resultsServer', 'script') === 'builtin'
+            ? await this.startBuiltin(actualPort, this.settings.get<string>('resultsDirectory', 'results') || 'results')
+            : await this.startScript(actualPort);
+        if (started && this.stopRequested) {
+            // Stopped while starting; stop() found nothing to stop yet
+            await this.builtinServer?.stop();
+            this.builtinServer = undefined;
+            await this.killScript();
+        }
+        if (!started || this.stopRequested) {
+            this.setStatus('stopped');
+            return false;
+        }
+
+        this.setStatus('running');
+        this.startHealthCheck();
+        this.outputChannel.appendLine(`Results service is ready on http://localhost:${actualPort}`);
+        if (openBrowser) {
+            vscode.env.openExternal(vscode.Uri.parse(`http://localhost:${actualPort}`));
+            vscode.window.showInformationMessage(`Results service started on port ${actualPort}`);
+        }
+        return true;
+    }
 
+    private async startScript(port: number): Promise<boolean> {
         const scriptPath = path.join(this.workspaceRoot, 'serve_results.sh');
+        // Last lines the script printed, shown when it exits before the server is ready
+        const recentOutput: string[] = [];
+        const remember = (text: string) => {
+            recentOutput.push(...text.split('\n').filter(line => line.trim()));
+            recentOutput.splice(0, Math.max(0, recentOutput.length - 5));
+        };
 
+        let child: cp.ChildProcess;
         try {
             this.outputChannel.show();
-            this.outputChannel.appendLine(`Starting results service on port ${actualPort}...`);
+            this.outputChannel.appendLine(`Starting results service on port ${port}...`);
 
-            this.process = cp.spawn('bash', [scriptPath, actualPort.toString()], {
+            // In its own process group, so stopping it also stops the server the script starts
+            child = cp.spawn('bash', [scriptPath, port.toString()], {
                 cwd: this.workspaceRoot,
-                shell: true
+                detached: true
             });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to start results service: ${message}`);
+            return false;
+        }
 
-            this._isRunning = true;
+        this.process = child;
+        if (child.pid) {
+            this.writeMarker({ pid: child.pid, port, startedAt: Date.now() });
+        }
 
-            this.process.stdout?.on('data', (data) => {
-                this.outputChannel.appendLine(data.toString());
-            });
+        let exitReason: string | undefined;
 
-            this.process.stderr?.on('data', (data) => {
-                this.outputChannel.appendLine(`[ERROR] ${data.toString()}`);
-            });
+        child.stdout?.on('data', (data) => {
+            this.outputChannel.appendLine(data.toString());
+            remember(data.toString());
+        });
 
-            this.process.on('close', (code) => {
-                this._isRunning = false;
-                this.outputChannel.appendLine(`Results service stopped with code ${code}`);
-            });
+        child.stderr?.on('data', (data) => {
+            this.outputChannel.appendLine(`[ERROR] ${data.toString()}`);
+            remember(data.toString());
+        });
 
-            this.process.on('error', (err) => {
-                this._isRunning = false;
-                this.outputChannel.appendLine(`Error: ${err.message}`);
-                vscode.window.showErrorMessage(`Failed to start results service: ${err.message}`);
-            });
+        child.on('close', (code, signal) => {
+            exitReason = exitReason ?? (code !== null ? `exited with code ${code}` : `was terminated by ${signal}`);
+            this.removeMarker();
+            this.outputChannel.appendLine(`Results service stopped with code ${code}`);
+            if (this.process !== child) {
+                return;
+            }
+            this.process = null;
+            // Exits during startup are reported by the readiness probe
+            if (!this.stopping && !this.stopRequested && this._status !== 'starting') {
+                this.handleFailure(exitReason, true);
+            }
+        });
 
-            // Wait a bit and open browser
-            setTimeout(() => {
-                if (this._isRunning) {
-                    vscode.env.openExternal(vscode.Uri.parse(`http://localhost:${actualPort}`));
-                    vscode.window.showInformationMessage(`Results service started on port ${actualPort}`);
-                }
-            }, 1500);
+        child.on('error', (err) => {
+            exitReason = `failed: ${err.message}`;
+            this.outputChannel.appendLine(`Error: ${err.message}`);
+        });
 
+        const timeoutMs = this.settings.get<number>('resultsStartTimeout', 10) * 1000;
+        const ready = await waitUntilReady(port, timeoutMs, () => exitReason !== undefined);
+        if (ready) {
             return true;
+        }
+
+        if (this.stopRequested) {
+            this.outputChannel.appendLine('Results service was stopped before it was ready');
+        } else if (exitReason !== undefined) {
+            const output = recentOutput.length > 0 ? `: ${recentOutput.join(' | ')}` : '';
+            this.outputChannel.appendLine(`serve_results.sh ${exitReason} before the server was ready`);
+            vscode.window.showErrorMessage(`Results service ${exitReason} before it was ready${output}`);
+        } else {
+            this.outputChannel.appendLine(`No HTTP response on port ${port} within ${timeoutMs / 1000}s, stopping serve_results.sh`);
+            vscode.window.showErrorMessage(`Results service did not answer on port ${port} within ${timeoutMs / 1000}s`);
+            await this.killScript();
+        }
+        return false;
+    }
+
+    /**
+     * Serve the results directory from the extension itself instead of serve_results.sh
+     */
+    private async startBuiltin(port: number, resultsDirectory: string): Promise<boolean> {
+        const rootDir = path.resolve(this.workspaceRoot, resultsDirectory);
+        const server = new StaticResultsServer(rootDir, line => this.outputChannel.appendLine(line));
+
+        try {
+            this.outputChannel.show();
+            this.outputChannel.appendLine(`Starting built-in results server for ${rootDir} on port ${port}...`);
+            await server.start(port);
         } catch (error) {
-            this._isRunning = false;
             const message = error instanceof Error ? error.message : 'Unknown error';
+            this.outputChannel.appendLine(`Error: ${message}`);
             vscode.window.showErrorMessage(`Failed to start results service: ${message}`);
             return false;
         }
+
+        this.builtinServer = server;
+        return true;
     }
 
-    stop(): boolean {
-        if (!this._isRunning && this.process && this.process.exitCode !== null) {
-            // Process has already exited, just update our state
-            this._isRunning = false;
-            this.outputChannel.appendLine('Results service was already stopped');
-            return true;
+    /**
+     * Check the server periodically; it is marked unreachable when a check fails
+     */
+    private startHealthCheck() {
+        this.stopHealthCheck();
+        const intervalSeconds = this.settings.get<number>('resultsHealthCheckInterval', 10);
+        if (intervalSeconds <= 0) {
+            return;
         }
 
-        let success = false;
+        let failures = 0;
+        let probing = false;
+        this.healthTimer = setInterval(async () => {
+            if (probing || this._status === 'stopped' || this._status === 'starting') {
+                return;
+            }
+            probing = true;
+            const healthy = await canConnect(this._port, 2000);
+            probing = false;
+            if (this.healthTimer === undefined || this.stopping || this.stopRequested) {
+                return;
+            }
 
-        // First, try to kill the main script process
-        if (this.process) {
-            try {
-                if (this.process.pid) {
-                    // Try to kill the process group
-                    try {
-                        process.kill(-this.process.pid, 'SIGKILL');
-                        this.outputChannel.appendLine(`Killed main process group with PID ${-this.process.pid}`);
-                    } catch (killError: any) {
-                        if (killError.code !== 'ESRCH') {
-                            // If ESRCH (no such process) it's fine, otherwise re-throw
-                            this.outputChannel.appendLine(`Error killing process group: ${killError.message}`);
-                        }
-                    }
+            if (healthy) {
+                if (this._status === 'unreachable') {
+                    this.outputChannel.appendLine(`Results service on port ${this._port} is reachable again`);
                 }
-                success = true;
-            } catch (error) {
-                this.outputChannel.appendLine(`Error killing main process: ${error}`);
+                failures = 0;
+                this.setStatus('running');
+                return;
             }
-        }
 
-        // Also kill any Python processes serving on this port
-        try {
-            const lsofResult = cp.execSync(`lsof -i :${this._port} -t 2>/dev/null || true`, { encoding: 'utf-8' });
-            if (lsofResult.trim()) {
-                const pids = lsofResult.trim().split('\n').filter(pid => pid.length > 0);
-                for (const pid of pids) {
-                    if (pid) {
-                        try {
-                            cp.execSync(`kill -9 ${pid}`, { stdio: 'ignore' });
-                            this.outputChannel.appendLine(`Force killed process ${pid} using port ${this._port}`);
-                        } catch (killError) {
-                            this.outputChannel.appendLine(`Could not kill process ${pid}: ${killError}`);
-                        }
-                    }
-                }
+            failures++;
+            if (this._status === 'running') {
+                this.outputChannel.appendLine(`Results service on port ${this._port} is not reachable`);
             }
-        } catch (error) {
-            this.outputChannel.appendLine(`Error finding processes on port ${this._port}: ${error}`);
+            this.setStatus('unreachable');
+            if (failures >= ResultsServiceManager.unhealthyProbes) {
+                this.handleFailure(`has not answered on port ${this._port} for ${failures} checks`, false);
+            }
+        }, intervalSeconds * 1000);
+    }
+
+    private stopHealthCheck() {
+        if (this.healthTimer) {
+            clearInterval(this.healthTimer);
+            this.healthTimer = undefined;
         }
+    }
 
-        // Additional check: kill any python processes that might be serving this port
-        // by looking for the http.server command specifically
+    /**
+     * React to a server that exited or stopped answering, restarting it when the restart policy allows
+     */
+    private async handleFailure(reason: string, exited: boolean) {
+        if (this.stopRequested) {
+            return;
+        }
+        const policy = this.settings.get<string>('resultsRestartPolicy', 'never');
+        const restart = (policy === 'onExitOrUnreachable' || (policy === 'onExit' && exited))
+            && this.restarts < ResultsServiceManager.maxRestarts;
+
+        // An unreachable server that is not restarted keeps running, so it may recover
+        if (!exited && !restart) {
+            return;
+        }
+
+        this.stopHealthCheck();
+        this.stopping = true;
+        await this.builtinServer?.stop();
+        this.builtinServer = undefined;
+        await this.killScript();
+        this.stopping = false;
+        this.setStatus('stopped');
+
+        if (this.stopRequested) {
+            return;
+        }
+        if (!restart) {
+            vscode.window.showErrorMessage(`Results service ${reason}`);
+            return;
+        }
+
+        this.restarts++;
+        this.outputChannel.appendLine(`Results service ${reason}, restarting (${this.restarts}/${ResultsServiceManager.maxRestarts})`);
+        if (!await this.launch(this._port, false) && !this.stopRequested) {
+            vscode.window.showErrorMessage(`Results service ${reason} and could not be restarted`);
+        }
+    }
+
+    /**
+     * Stop the script's own process group, never whatever else holds the port
+     */
+    private async killScript() {
+        const child = this.process;
+        this.process = null;
+        if (child?.pid && child.exitCode === null) {
+            this.outputChannel.appendLine(`Stopping results service process group ${child.pid}`);
+            await killProcessGroup(child.pid);
+        }
+        this.removeMarker();
+    }
+
+    async stop(): Promise<boolean> {
+        this.stopHealthCheck();
+        this.stopRequested = true;
+        this.stopping = true;
         try {
-            const pythonPids = cp.execSync(
-                `ps aux | grep 'python.*http.server' | grep ':${this._port}' | grep -v grep | awk '{print $2}' 2>/dev/null || true`,
-                { encoding: 'utf-8' }
-            );
-
-            if (pythonPids.trim()) {
-                const pids = pythonPids.trim().split('\n').filter(pid => pid.length > 0);
-                for (const pid of pids) {
-                    if (pid) {
-                        try {
-                            cp.execSync(`kill -9 ${pid}`, { stdio: 'ignore' });
-                            this.outputChannel.appendLine(`Force killed Python server process ${pid}`);
-                        } catch (killError) {
-                            this.outputChannel.appendLine(`Could not kill Python process ${pid}: ${killError}`);
-                        }
-                    }
-                }
+            if (this.builtinServer) {
+                await this.builtinServer.stop();
+                this.builtinServer = undefined;
+            } else if (!this.process || this.process.exitCode !== null) {
+                // Process has already exited, just update our state
+                this.outputChannel.appendLine('Results service was already stopped');
             }
-        } catch (error) {
-            this.outputChannel.appendLine(`Error finding Python server processes: ${error}`);
+            await this.killScript();
+        } finally {
+            this.stopping = false;
         }
 
-        // Wait a bit to allow processes to terminate
-        this._isRunning = false;
+        this.setStatus('stopped');
         this.outputChannel.appendLine('Results service stopped');
         vscode.window.showInformationMessage('Results service stopped');
-
         return true;
     }
 
     dispose() {
-        this.stop();
+        if (this.isRunning) {
+            this.stop();
+        }
         this.outputChannel.dispose();
+        this._onDidChangeStatus.dispose();
     }
 }
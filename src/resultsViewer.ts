@@ -0,0 +1,310 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { RobotResults, RobotStat, findOutputXmls, parseOutputXml } from './outputParser';
+import { WorkspaceManager } from './workspaceManager';
+
+interface ResultEntry {
+    folder: string;      // Workspace folder name
+    outputPath: string;
+    label: string;       // Directory of the output, relative to its workspace folder
+    mtime: number;
+}
+
+function escapeHtml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function formatDuration(ms: number): string {
+    const seconds = Math.round(ms / 1000);
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+/**
+ * Shows Robot results inside the editor: a summary panel listing the result directories
+ * of the workspace with statistics by suite and tag, and log/report files in panel tabs
+ */
+export class ResultsViewer implements vscode.Disposable {
+    private summaryPanel?: vscode.WebviewPanel;
+    // Log and report panels keyed by file path
+    private readonly artifactPanels = new Map<string, vscode.WebviewPanel>();
+    private selected?: string;
+    private readonly runListener: vscode.Disposable;
+
+    constructor(private readonly workspaces: WorkspaceManager) {
+        // Keep an open summary up to date and on the newest results
+        this.runListener = this.workspaces.onDidFinishRun(result => {
+            if (this.summaryPanel && result.results) {
+                this.selected = result.results.outputPath;
+                this.renderSummary();
+            }
+        });
+    }
+
+    /**
+     * Open the summary panel, showing the given output.xml or the newest one
+     */
+    show(outputPath?: string) {
+        if (outputPath) {
+            this.selected = outputPath;
+        }
+
+        if (this.summaryPanel) {
+            this.summaryPanel.reveal();
+        } else {
+            this.summaryPanel = vscode.window.createWebviewPanel(
+                'rfTestRunner.results',
+                'Robot Results',
+                vscode.ViewColumn.Active,
+                { enableScripts: true }
+            );
+            this.summaryPanel.onDidDispose(() => {
+                this.summaryPanel = undefined;
+            });
+            this.summaryPanel.webview.onDidReceiveMessage(message => {
+                switch (message.type) {
+                    case 'select':
+                        this.selected = message.outputPath;
+                        this.renderSummary();
+                        break;
+                    case 'openArtifact':
+                        this.openArtifact(message.file);
+                        break;
+                    case 'refresh':
+                        this.renderSummary();
+                        break;
+                }
+            });
+        }
+
+        this.renderSummary();
+    }
+
+    /**
+     * Open log.html or report.html in a panel tab. Relative links, screenshots and
+     * videos resolve against the file's directory.
+     */
+    openArtifact(file: string, fragment?: string) {
+        if (!fs.existsSync(file)) {
+            vscode.window.showWarningMessage(`${file} does not exist`);
+            return;
+        }
+
+        let panel = this.artifactPanels.get(file);
+        if (panel) {
+            panel.reveal();
+        } else {
+            const dir = vscode.Uri.file(path.dirname(file));
+            panel = vscode.window.createWebviewPanel(
+                'rfTestRunner.artifact',
+                `${path.basename(file)} (${path.basename(path.dirname(file))})`,
+                vscode.ViewColumn.Active,
+                { enableScripts: true, retainContextWhenHidden: true, localResourceRoots: [dir] }
+            );
+            panel.onDidDispose(() => this.artifactPanels.delete(file));
+            panel.webview.onDidReceiveMessage(message => {
+                const target = path.resolve(path.dirname(file), message.href);
+                if (message.type === 'openArtifact') {
+                    this.openArtifact(target, message.fragment);
+                } else if (message.type === 'openFile') {
+                    vscode.commands.executeCommand('vscode.open', vscode.Uri.file(target));
+                }
+            });
+            this.artifactPanels.set(file, panel);
+        }
+
+        try {
+            panel.webview.html = this.getArtifactHtml(panel.webview, file, fragment);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Could not open ${file}: ${message}`);
+        }
+    }
+
+    private listResults(): ResultEntry[] {
+        return this.workspaces.workspaces
+            .flatMap(workspace => findOutputXmls(workspace.root).map(output => ({
+                folder: workspace.name,
+                outputPath: output.file,
+                label: path.relative(workspace.root, path.dirname(output.file)) || '.',
+                mtime: output.mtime
+            })))
+            .sort((a, b) => b.mtime - a.mtime);
+    }
+
+    private renderSummary() {
+        if (!this.summaryPanel) {
+            return;
+        }
+
+        const entries = this.listResults();
+        const selected = entries.find(entry => entry.outputPath === this.selected) ?? entries[0];
+        this.selected = selected?.outputPath;
+
+        let results: RobotResults | undefined;
+        let error: string | undefined;
+        if (selected) {
+            try {
+                results = parseOutputXml(selected.outputPath);
+            } catch (e) {
+                error = e instanceof Error ? e.message : 'Unknown error';
+            }
+        }
+
+        this.summaryPanel.webview.html = this.getSummaryHtml(entries, selected, results, error);
+    }
+
+    private static statRows(stats: RobotStat[]): string {
+        if (stats.length === 0) {
+            return '<tr><td colspan="5" class="muted">None</td></tr>';
+        }
+
+        return stats.map(stat => {
+            const total = stat.pass + stat.fail + stat.skip;
+            const width = (count: number) => total > 0 ? (count / total * 100).toFixed(1) : '0';
+            return `<tr>
+                <td class="name" title="${escapeHtml(stat.name)}">${escapeHtml(stat.name)}</td>
+                <td>${total}</td><td class="PASS">${stat.pass}</td><td class="FAIL">${stat.fail}</td><td class="SKIP">${stat.skip}</td>
+                <td class="bar-cell"><div class="bar">
+                    <span class="bar-pass" style="width: ${width(stat.pass)}%"></span><span class="bar-fail" style="width: ${width(stat.fail)}%"></span><span class="bar-skip" style="width: ${width(stat.skip)}%"></span>
+                </div></td>
+            </tr>`;
+        }).join('');
+    }
+
+    private getSummaryHtml(entries: ResultEntry[], selected: ResultEntry | undefined, results: RobotResults | undefined, error: string | undefined): string {
+        const showFolder = this.workspaces.isMultiRoot;
+        const list = entries.map(entry => `
+            <div class="entry${entry === selected ? ' selected' : ''}" data-output="${escapeHtml(entry.outputPath)}" onclick="select(this.dataset.output)">
+                <div>${escapeHtml(showFolder ? `${entry.folder}: ${entry.label}` : entry.label)}</div>
+                <div class="muted">${escapeHtml(new Date(entry.mtime).toLocaleString())}</div>
+            </div>`).join('') || '<div class="muted">No output.xml found in the workspace</div>';
+
+        let summary = '<div class="muted">Select a result directory</div>';
+        if (selected && error) {
+            summary = `<div class="FAIL">Could not read ${escapeHtml(selected.outputPath)}: ${escapeHtml(error)}</div>`;
+        } else if (selected && results) {
+            const dir = path.dirname(selected.outputPath);
+            const artifactButton = (file: string, title: string) => {
+                const fullPath = path.join(dir, file);
+                return `<button class="btn" data-file="${escapeHtml(fullPath)}" onclick="openArtifact(this.dataset.file)"${fs.existsSync(fullPath) ? '' : ' disabled'}>${title}</button>`;
+            };
+            const total = results.statistics.total;
+            summary = `
+                <h2 class="${results.suite.status}">${escapeHtml(results.suite.name)}: ${results.suite.status}</h2>
+                <div class="muted">${escapeHtml(dir)}</div>
+                <p>${total.pass + total.fail + total.skip} tests: <span class="PASS">${total.pass} passed</span>, <span class="FAIL">${total.fail} failed</span>, <span class="SKIP">${total.skip} skipped</span> in ${formatDuration(results.suite.elapsedMs)}</p>
+                <div class="actions">${artifactButton('log.html', 'Open Log')}${artifactButton('report.html', 'Open Report')}</div>
+                <h3>Statistics by Suite</h3>
+                <table><tr><th>Suite</th><th>Total</th><th>Pass</th><th>Fail</th><th>Skip</th><th></th></tr>${ResultsViewer.statRows(results.statistics.suites)}</table>
+                <h3>Statistics by Tag</h3>
+                <table><tr><th>Tag</th><th>Total</th><th>Pass</th><th>Fail</th><th>Skip</th><th></th></tr>${ResultsViewer.statRows(results.statistics.tags)}</table>`;
+        }
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Robot Results</title>
+    <style>
+        body { font-family: var(--vscode-font-family); font-size: 13px; color: var(--vscode-foreground); margin: 0; padding: 0; }
+        .layout { display: flex; height: 100vh; }
+        .list { width: 260px; flex-shrink: 0; overflow-y: auto; border-right: 1px solid var(--vscode-panel-border); padding: 8px; box-sizing: border-box; }
+        .summary { flex: 1; overflow-y: auto; padding: 8px 16px; }
+        .entry { padding: 6px 8px; border-radius: 3px; cursor: pointer; word-break: break-all; }
+        .entry:hover { background: var(--vscode-list-hoverBackground); }
+        .entry.selected { background: var(--vscode-list-activeSelectionBackground); color: var(--vscode-list-activeSelectionForeground); }
+        .muted { font-size: 11px; color: var(--vscode-descriptionForeground); }
+        .entry.selected .muted { color: inherit; }
+        .PASS { color: #81c784; }
+        .FAIL { color: #e57373; }
+        .SKIP, .NOT { color: var(--vscode-descriptionForeground); }
+        .btn { padding: 6px 12px; border: none; border-radius: 3px; cursor: pointer; background: var(--vscode-button-background); color: var(--vscode-button-foreground); }
+        .btn:disabled { opacity: 0.5; cursor: not-allowed; }
+        .btn-secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); width: 100%; margin-bottom: 8px; }
+        .actions { display: flex; gap: 8px; }
+        table { border-collapse: collapse; width: 100%; margin-bottom: 16px; }
+        th, td { text-align: left; padding: 3px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+        td.name { max-width: 360px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+        .bar-cell { width: 30%; }
+        .bar { display: flex; height: 8px; border-radius: 4px; overflow: hidden; background: var(--vscode-input-background); }
+        .bar-pass { background: #388e3c; }
+        .bar-fail { background: #d32f2f; }
+        .bar-skip { background: var(--vscode-descriptionForeground); }
+    </style>
+</head>
+<body>
+    <div class="layout">
+        <div class="list">
+            <button class="btn btn-secondary" onclick="refresh()">Refresh</button>
+            ${list}
+        </div>
+        <div class="summary">${summary}</div>
+    </div>
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        function select(outputPath) {
+            vscode.postMessage({ type: 'select', outputPath });
+        }
+
+        function openArtifact(file) {
+            vscode.postMessage({ type: 'openArtifact', file });
+        }
+
+        function refresh() {
+            vscode.postMessage({ type: 'refresh' });
+        }
+    </script>
+</body>
+</html>`;
+    }
+
+    /**
+     * The log or report with a base URL for its relative resources. Links to other
+     * HTML files of the directory (report to log) open in their own tab, links to
+     * other files (videos, traces) open in the editor, and in-page anchors stay in place.
+     */
+    private getArtifactHtml(webview: vscode.Webview, file: string, fragment?: string): string {
+        const content = fs.readFileSync(file, 'utf-8');
+        const base = `${webview.asWebviewUri(vscode.Uri.file(path.dirname(file)))}/`;
+        const injected = `
+<base href="${escapeHtml(base)}">
+<script>
+    (function () {
+        const vscode = acquireVsCodeApi();
+        const documentUrl = location.href.split('#')[0];
+        const fragment = ${JSON.stringify(fragment ?? '')};
+        if (fragment) {
+            history.replaceState(null, '', documentUrl + '#' + fragment);
+        }
+        document.addEventListener('click', function (event) {
+            const link = event.target instanceof Element ? event.target.closest('a[href]') : null;
+            const href = link ? link.getAttribute('href') : '';
+            if (!href || /^[a-z][a-z0-9+.-]*:/i.test(href)) {
+                return;
+            }
+            event.preventDefault();
+            if (href.charAt(0) === '#') {
+                history.replaceState(null, '', documentUrl + href);
+                return;
+            }
+            const parts = href.split('#');
+            const type = /\\.html?$/i.test(parts[0]) ? 'openArtifact' : 'openFile';
+            vscode.postMessage({ type: type, href: decodeURIComponent(parts[0]), fragment: parts[1] });
+        }, true);
+    })();
+</script>`;
+
+        return /<head[^>]*>/i.test(content)
+            ? content.replace(/<head[^>]*>/i, match => match + injected)
+            : injected + content;
+    }
+
+    dispose() {
+        this.runListener.dispose();
+        this.summaryPanel?.dispose();
+        this.artifactPanels.forEach(panel => panel.dispose());
+    }
+}
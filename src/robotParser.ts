@@ -0,0 +1,485 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface RobotKeywordCall {
+    name: string;
+    args: string[];
+    assign: string[];   // Variables the result is assigned to, e.g. ${value}=
+    line: number;       // Zero-based
+}
+
+export interface RobotTestCase {
+    name: string;
+    line: number;       // Zero-based line of the test name
+    endLine: number;    // Zero-based last line belonging to the test
+    documentation: string;
+    tags: string[];     // [Tags] of the test itself
+    effectiveTags: string[];  // Tags after applying Test Tags / Force Tags / Default Tags
+    setup?: RobotKeywordCall;
+    teardown?: RobotKeywordCall;
+    template?: string;  // Effective template, undefined when the test is not data-driven
+    timeout?: string;
+    body: RobotKeywordCall[];
+}
+
+export interface RobotUserKeyword {
+    name: string;
+    line: number;
+    endLine: number;
+    documentation: string;
+    arguments: string[];
+    tags: string[];
+    body: RobotKeywordCall[];
+}
+
+export interface RobotVariable {
+    name: string;
+    value: string[];
+    line: number;
+}
+
+export interface RobotImport {
+    type: 'Library' | 'Resource' | 'Variables';
+    name: string;
+    args: string[];
+    line: number;
+}
+
+export interface RobotSuiteModel {
+    source: string;
+    name: string;
+    isInit: boolean;    // __init__ file describing a directory suite
+    isTasks: boolean;   // Uses *** Tasks *** instead of *** Test Cases ***
+    documentation: string;
+    metadata: Record<string, string>;
+    suiteSetup?: RobotKeywordCall;
+    suiteTeardown?: RobotKeywordCall;
+    testSetup?: RobotKeywordCall;
+    testTeardown?: RobotKeywordCall;
+    testTemplate?: string;
+    testTimeout?: string;
+    testTags: string[]; // Test Tags / Force Tags
+    defaultTags: string[];
+    keywordTags: string[];
+    imports: RobotImport[];
+    variables: RobotVariable[];
+    tests: RobotTestCase[];
+    keywords: RobotUserKeyword[];
+    hasTestSection: boolean;
+}
+
+/**
+ * A logical statement: one data row plus any "..." continuation rows
+ */
+interface Statement {
+    cells: string[];
+    indented: boolean;  // Row starts with a separator, i.e. belongs to a test or keyword body
+    line: number;
+    endLine: number;
+}
+
+type Section = 'settings' | 'variables' | 'tests' | 'keywords' | 'comments' | 'unknown' | 'none';
+
+const CONTROL_STATEMENTS = new Set([
+    'FOR', 'END', 'IF', 'ELSE IF', 'ELSE', 'TRY', 'EXCEPT', 'FINALLY', 'WHILE',
+    'BREAK', 'CONTINUE', 'RETURN', 'VAR', 'GROUP', 'IN', 'IN RANGE', 'IN ENUMERATE', 'IN ZIP'
+]);
+
+const ASSIGNMENT = /^[$@&%]\{.+\}\s*=?$/;
+
+/**
+ * Robot Framework suite name for a suite file or directory: extension and "01__"
+ * ordering prefix removed, underscores as spaces, all-lowercase names title-cased
+ */
+export function suiteNameFromPath(suitePath: string): string {
+    const base = path.basename(suitePath).replace(/\.[^.]+$/, '');
+    const name = base.replace(/^.*?__/, '').replace(/_/g, ' ').trim();
+    return name === name.toLowerCase()
+        ? name.replace(/\b\w/g, ch => ch.toUpperCase())
+        : name;
+}
+
+function sectionFromHeader(header: string): Section {
+    const name = header.replace(/\*/g, '').trim().toLowerCase();
+    if (name === 'settings' || name === 'setting') {
+        return 'settings';
+    }
+    if (name === 'variables' || name === 'variable') {
+        return 'variables';
+    }
+    if (name === 'test cases' || name === 'test case' || name === 'tasks' || name === 'task') {
+        return 'tests';
+    }
+    if (name === 'keywords' || name === 'keyword') {
+        return 'keywords';
+    }
+    if (name === 'comments' || name === 'comment') {
+        return 'comments';
+    }
+    return 'unknown';
+}
+
+/**
+ * Split one physical line into cells, honoring the space, tab and pipe separated
+ * formats. Comments are dropped; a leading empty cell marks an indented row.
+ */
+export function tokenizeLine(line: string): string[] {
+    let cells: string[];
+
+    if (/^\|(\s|$)/.test(line)) {
+        // Pipe separated: "| cell | cell |", the closing pipe is optional
+        const trimmed = line.trimEnd();
+        const body = trimmed.endsWith(' |') ? trimmed.slice(1, -1) : trimmed.slice(1);
+        cells = body.split(/(?<=\s)\|(?=\s)/).map(cell => cell.trim());
+    } else {
+        // Space separated: two or more spaces, or any tab, separates cells.
+        // Any leading whitespace marks the row as indented.
+        cells = line.split(/ {2,}|\t+| \t/).map(cell => cell.trim());
+        if (/^\s/.test(line) && cells[0] !== '') {
+            cells.unshift('');
+        }
+    }
+
+    // A cell starting with an unescaped # starts a comment for the rest of the row
+    const commentIndex = cells.findIndex(cell => cell.startsWith('#'));
+    if (commentIndex >= 0) {
+        cells = cells.slice(0, commentIndex);
+    }
+
+    // Trailing empty cells carry no data
+    while (cells.length > 0 && cells[cells.length - 1] === '') {
+        cells.pop();
+    }
+
+    return cells;
+}
+
+/**
+ * Turn file content into logical statements grouped by section
+ */
+function readStatements(content: string): { section: Section; header: string; statements: Statement[] }[] {
+    const sections: { section: Section; header: string; statements: Statement[] }[] = [];
+    let current: { section: Section; header: string; statements: Statement[] } = { section: 'none', header: '', statements: [] };
+    const lines = content.split(/\r?\n/);
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        // Section headers: "*** Test Cases ***", also the lenient "* Settings" form
+        const headerMatch = line.match(/^\|?\s*(\*+[^*|]+\**)/);
+        if (headerMatch && line.trimStart().replace(/^\|\s*/, '').startsWith('*')) {
+            current = { section: sectionFromHeader(headerMatch[1]), header: headerMatch[1].replace(/\*/g, '').trim(), statements: [] };
+            sections.push(current);
+            continue;
+        }
+
+        // Everything in a comments section, or before the first section, is ignored
+        if (current.section === 'comments' || current.section === 'none' || current.section === 'unknown') {
+            continue;
+        }
+
+        const cells = tokenizeLine(line);
+        if (cells.length === 0 || cells.every(cell => cell === '')) {
+            continue;
+        }
+
+        const indented = cells[0] === '';
+        const dataCells = indented ? cells.slice(1) : cells;
+        // Old-style FOR loop bodies prefix each row with a backslash cell
+        while (dataCells.length > 0 && (dataCells[0] === '' || dataCells[0] === '\\')) {
+            dataCells.shift();
+        }
+
+        const previous = current.statements[current.statements.length - 1];
+        if (dataCells[0] === '...' && previous) {
+            previous.cells.push(...dataCells.slice(1));
+            previous.endLine = i;
+            continue;
+        }
+
+        current.statements.push({ cells: dataCells, indented, line: i, endLine: i });
+    }
+
+    return sections;
+}
+
+function unescape(value: string): string {
+    return value.replace(/\\(.)/g, '$1');
+}
+
+function toKeywordCall(cells: string[], line: number): RobotKeywordCall | undefined {
+    const assign: string[] = [];
+    let index = 0;
+    while (index < cells.length && ASSIGNMENT.test(cells[index])) {
+        assign.push(cells[index].replace(/\s*=$/, ''));
+        index++;
+    }
+    const name = cells[index];
+    if (!name || name.toUpperCase() === 'NONE') {
+        return undefined;
+    }
+    return { name, args: cells.slice(index + 1), assign, line };
+}
+
+function isDisabled(value: string | undefined): boolean {
+    return !value || value.toUpperCase() === 'NONE';
+}
+
+function createModel(source: string): RobotSuiteModel {
+    const isInit = path.basename(source).toLowerCase().startsWith('__init__.');
+    return {
+        source,
+        name: suiteNameFromPath(isInit ? path.dirname(source) : source),
+        isInit,
+        isTasks: false,
+        documentation: '',
+        metadata: {},
+        testTags: [],
+        defaultTags: [],
+        keywordTags: [],
+        imports: [],
+        variables: [],
+        tests: [],
+        keywords: [],
+        hasTestSection: false
+    };
+}
+
+function parseSetting(model: RobotSuiteModel, statement: Statement) {
+    const [rawName, ...values] = statement.cells;
+    const name = rawName.toLowerCase().replace(/:$/, '');
+    const call = () => toKeywordCall(values, statement.line);
+
+    switch (name) {
+        case 'documentation':
+            model.documentation = unescape(values.join('\n'));
+            break;
+        case 'metadata':
+            if (values.length > 0) {
+                model.metadata[values[0]] = unescape(values.slice(1).join(' '));
+            }
+            break;
+        case 'suite setup':
+            model.suiteSetup = call();
+            break;
+        case 'suite teardown':
+            model.suiteTeardown = call();
+            break;
+        case 'test setup':
+        case 'task setup':
+            model.testSetup = call();
+            break;
+        case 'test teardown':
+        case 'task teardown':
+            model.testTeardown = call();
+            break;
+        case 'test template':
+        case 'task template':
+            model.testTemplate = isDisabled(values[0]) ? undefined : values[0];
+            break;
+        case 'test timeout':
+        case 'task timeout':
+            model.testTimeout = values[0];
+            break;
+        case 'force tags':
+        case 'test tags':
+        case 'task tags':
+            model.testTags.push(...values);
+            break;
+        case 'default tags':
+            model.defaultTags.push(...values);
+            break;
+        case 'keyword tags':
+            model.keywordTags.push(...values);
+            break;
+        case 'library':
+        case 'resource':
+        case 'variables':
+            if (values.length > 0) {
+                const type = (name.charAt(0).toUpperCase() + name.slice(1)) as RobotImport['type'];
+                model.imports.push({ type, name: values[0], args: values.slice(1), line: statement.line });
+            }
+            break;
+    }
+}
+
+/**
+ * Parse the body of a test case or user keyword
+ */
+function parseBody(
+    statements: Statement[],
+    onSetting: (name: string, values: string[], statement: Statement) => void,
+    isDataRow: () => boolean
+): RobotKeywordCall[] {
+    const body: RobotKeywordCall[] = [];
+
+    for (const statement of statements) {
+        const [first, ...rest] = statement.cells;
+        const settingMatch = first.match(/^\[\s*(.+?)\s*\]$/);
+        if (settingMatch) {
+            onSetting(settingMatch[1].toLowerCase(), rest, statement);
+            continue;
+        }
+
+        // Templated tests contain argument rows, not keyword calls
+        if (isDataRow()) {
+            continue;
+        }
+
+        if (CONTROL_STATEMENTS.has(first.toUpperCase()) || first.toUpperCase() === ':FOR') {
+            // Inline IF may carry a keyword call after the condition; it cannot be
+            // separated reliably without evaluating the expression, so skip it
+            continue;
+        }
+
+        const call = toKeywordCall(statement.cells, statement.line);
+        if (call) {
+            body.push(call);
+        }
+    }
+
+    return body;
+}
+
+/**
+ * Group statements in a test case or keyword section under their owning name row
+ */
+function groupBlocks(statements: Statement[]): { header: Statement; body: Statement[] }[] {
+    const blocks: { header: Statement; body: Statement[] }[] = [];
+
+    for (const statement of statements) {
+        if (!statement.indented) {
+            // The name row may also hold the first step: "Test Name    Log    hi"
+            const [name, ...inline] = statement.cells;
+            const header: Statement = { ...statement, cells: [name] };
+            const body = inline.length > 0
+                ? [{ cells: inline, indented: true, line: statement.line, endLine: statement.endLine }]
+                : [];
+            blocks.push({ header, body });
+        } else if (blocks.length > 0) {
+            blocks[blocks.length - 1].body.push(statement);
+        }
+    }
+
+    return blocks;
+}
+
+function endLineOf(block: { header: Statement; body: Statement[] }): number {
+    const last = block.body[block.body.length - 1];
+    return last ? last.endLine : block.header.endLine;
+}
+
+function parseTestCases(model: RobotSuiteModel, statements: Statement[]) {
+    for (const block of groupBlocks(statements)) {
+        const test: RobotTestCase = {
+            name: unescape(block.header.cells[0]),
+            line: block.header.line,
+            endLine: endLineOf(block),
+            documentation: '',
+            tags: [],
+            effectiveTags: [],
+            template: model.testTemplate,
+            timeout: model.testTimeout,
+            body: []
+        };
+        let hasOwnTags = false;
+
+        test.body = parseBody(block.body, (name, values, statement) => {
+            switch (name) {
+                case 'documentation':
+                    test.documentation = unescape(values.join('\n'));
+                    break;
+                case 'tags':
+                    test.tags.push(...values);
+                    hasOwnTags = true;
+                    break;
+                case 'setup':
+                    test.setup = toKeywordCall(values, statement.line);
+                    break;
+                case 'teardown':
+                    test.teardown = toKeywordCall(values, statement.line);
+                    break;
+                case 'template':
+                    test.template = isDisabled(values[0]) ? undefined : values[0];
+                    break;
+                case 'timeout':
+                    test.timeout = values[0];
+                    break;
+            }
+        }, () => test.template !== undefined);
+
+        // [Tags] replaces Default Tags; "-tag" removes a tag (Robot Framework 7)
+        const ownTags = hasOwnTags ? test.tags : model.defaultTags;
+        const removed = ownTags.filter(tag => tag.startsWith('-')).map(tag => tag.slice(1).toLowerCase());
+        test.effectiveTags = [...new Set([...model.testTags, ...ownTags.filter(tag => !tag.startsWith('-'))])]
+            .filter(tag => !removed.includes(tag.toLowerCase()));
+
+        model.tests.push(test);
+    }
+}
+
+function parseKeywords(model: RobotSuiteModel, statements: Statement[]) {
+    for (const block of groupBlocks(statements)) {
+        const keyword: RobotUserKeyword = {
+            name: block.header.cells[0],
+            line: block.header.line,
+            endLine: endLineOf(block),
+            documentation: '',
+            arguments: [],
+            tags: [...model.keywordTags],
+            body: []
+        };
+
+        keyword.body = parseBody(block.body, (name, values) => {
+            switch (name) {
+                case 'documentation':
+                    keyword.documentation = unescape(values.join('\n'));
+                    break;
+                case 'arguments':
+                    keyword.arguments.push(...values);
+                    break;
+                case 'tags':
+                    keyword.tags.push(...values);
+                    break;
+            }
+        }, () => false);
+
+        model.keywords.push(keyword);
+    }
+}
+
+/**
+ * Parse Robot Framework data (space, tab or pipe separated) into a suite model
+ */
+export function parseRobotSource(content: string, source: string): RobotSuiteModel {
+    const model = createModel(source);
+    const sections = readStatements(content.replace(/^\uFEFF/, ''));
+
+    // Settings first: Test Template and tags apply to test cases defined before them
+    for (const { section, statements } of sections) {
+        if (section === 'settings') {
+            statements.forEach(statement => parseSetting(model, statement));
+        } else if (section === 'variables') {
+            for (const statement of statements) {
+                const [name, ...value] = statement.cells;
+                model.variables.push({ name: name.replace(/\s*=$/, ''), value, line: statement.line });
+            }
+        }
+    }
+
+    for (const { section, header, statements } of sections) {
+        if (section === 'tests') {
+            model.hasTestSection = true;
+            model.isTasks = model.isTasks || header.toLowerCase().startsWith('task');
+            parseTestCases(model, statements);
+        } else if (section === 'keywords') {
+            parseKeywords(model, statements);
+        }
+    }
+
+    return model;
+}
+
+export function parseRobotFile(filePath: string): RobotSuiteModel {
+    return parseRobotSource(fs.readFileSync(filePath, 'utf-8'), filePath);
+}
@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TestConfig, TestSelection, RunResult } from './testRunner';
+
+export interface RunRecord {
+    id: string;
+    workspaceRoot?: string;  // Workspace folder of the run; absent for runs recorded before multi-root support
+    timestamp: number;
+    mode: 'docker' | 'local';
+    command: string;
+    config: TestConfig;
+    selections: TestSelection[];
+    exitCode: number | null;
+    durationMs: number;
+    passed?: number;
+    failed?: number;
+    skipped?: number;
+    reportDir?: string;     // Copy of the run's output.xml, log.html and report.html, kept per run
+}
+
+// Later runs overwrite the results folder, so each record keeps its own copy of the reports
+const HISTORY_DIR = path.join('.rf-test-runner', 'history');
+const REPORT_FILES = ['output.xml', 'log.html', 'report.html'];
+const MERGED_REPORT_FILES = ['merged-output.xml', 'merged-log.html', 'merged-report.html'];
+
+/**
+ * Persists a record of every test execution in workspace storage
+ */
+export class RunHistory implements vscode.Disposable {
+    private static readonly storageKey = 'rfTestRunner.runHistory';
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor(private readonly storage: vscode.Memento) {}
+
+    get records(): RunRecord[] {
+        return this.storage.get<RunRecord[]>(RunHistory.storageKey, []);
+    }
+
+    get(id: string): RunRecord | undefined {
+        return this.records.find(record => record.id === id);
+    }
+
+    async add(result: RunResult): Promise<RunRecord> {
+        const id = `${result.startTime}-${Math.random().toString(36).slice(2, 8)}`;
+        const record: RunRecord = {
+            id,
+            workspaceRoot: result.workspaceRoot,
+            timestamp: result.startTime,
+            mode: result.mode,
+            command: result.command,
+            config: result.config,
+            selections: result.config.selections,
+            exitCode: result.exitCode,
+            durationMs: result.endTime - result.startTime,
+            passed: result.results?.passed,
+            failed: result.results?.failed,
+            skipped: result.results?.skipped,
+            reportDir: result.results ? this.keepReports(result, id) : undefined
+        };
+
+        const maxEntries = vscode.workspace.getConfiguration('rfTestRunner').get<number>('historySize', 50);
+        const all = [record, ...this.records];
+        const records = all.slice(0, Math.max(1, maxEntries));
+        await this.storage.update(RunHistory.storageKey, records);
+        this.deleteReports(all.slice(records.length));
+        this._onDidChange.fire();
+        return record;
+    }
+
+    async remove(id: string): Promise<void> {
+        const records = this.records;
+        await this.storage.update(RunHistory.storageKey, records.filter(record => record.id !== id));
+        this.deleteReports(records.filter(record => record.id === id));
+        this._onDidChange.fire();
+    }
+
+    async clear(): Promise<void> {
+        const removed = this.records;
+        await this.storage.update(RunHistory.storageKey, []);
+        this.deleteReports(removed);
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Copy the reports of a finished run into its own history folder. Resolves to that
+     * folder, or undefined when nothing could be copied.
+     */
+    private keepReports(result: RunResult, id: string): string | undefined {
+        const sourceDir = path.dirname(result.results!.outputPath);
+        const reportDir = path.join(result.workspaceRoot, HISTORY_DIR, id);
+        // Merged reports are only current when this run merged them
+        const names = new Set([
+            path.basename(result.results!.outputPath),
+            ...REPORT_FILES,
+            ...(result.config.rerunFailed ? MERGED_REPORT_FILES : [])
+        ]);
+
+        try {
+            fs.mkdirSync(reportDir, { recursive: true });
+            let copied = 0;
+            for (const name of names) {
+                const source = path.join(sourceDir, name);
+                if (fs.existsSync(source)) {
+                    fs.copyFileSync(source, path.join(reportDir, name));
+                    copied++;
+                }
+            }
+            return copied > 0 ? reportDir : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private deleteReports(records: RunRecord[]) {
+        for (const record of records) {
+            if (record.reportDir) {
+                fs.rmSync(record.reportDir, { recursive: true, force: true });
+            }
+        }
+    }
+
+    /**
+     * The HTML report (or log) of a recorded run, warning when there is none
+     */
+    reportFile(id: string): string | undefined {
+        const record = this.get(id);
+        if (!record?.reportDir) {
+            vscode.window.showWarningMessage('No report was kept for this run');
+            return undefined;
+        }
+
+        const candidates = record.config.rerunFailed
+            ? ['merged-report.html', 'report.html', 'log.html']
+            : ['report.html', 'log.html'];
+        const reportFile = candidates
+            .map(name => path.join(record.reportDir as string, name))
+            .find(file => fs.existsSync(file));
+
+        if (!reportFile) {
+            vscode.window.showWarningMessage(`No report found in ${record.reportDir}`);
+        }
+        return reportFile;
+    }
+
+    dispose() {
+        this._onDidChange.dispose();
+    }
+}
@@ -0,0 +1,168 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Workspace folder holding the listener and its events during runs; it is shared with
+// the Docker container through the workspace mount
+const PROGRESS_DIR = '.rf-test-runner';
+const LISTENER_FILE = 'RFProgressListener.py';
+const EVENTS_FILE = 'events.jsonl';
+
+export interface RunProgress {
+    startTime: number;
+    total: number;       // Tests announced by the top-level suites started so far
+    completed: number;
+    passed: number;
+    failed: number;
+    skipped: number;
+    currentSuite?: string;
+    currentTest?: string;
+    currentKeyword?: string;
+}
+
+/**
+ * Workspace-relative (posix) paths passed to Robot as --listener listener:events
+ */
+export interface ProgressListener {
+    listener: string;
+    events: string;
+}
+
+interface ListenerEvent {
+    event: string;
+    pid: number;
+    name?: string;
+    longname?: string;
+    status?: string;
+    top?: boolean;
+    total?: number | null;
+}
+
+/**
+ * Copy the bundled listener into the workspace and remove the events of the previous run
+ */
+export function prepareProgressListener(workspaceRoot: string): ProgressListener {
+    const dir = path.join(workspaceRoot, PROGRESS_DIR);
+    fs.mkdirSync(dir, { recursive: true });
+    fs.copyFileSync(path.join(__dirname, '..', 'resources', 'listener', LISTENER_FILE), path.join(dir, LISTENER_FILE));
+    fs.rmSync(path.join(dir, EVENTS_FILE), { force: true });
+
+    return {
+        listener: `${PROGRESS_DIR}/${LISTENER_FILE}`,
+        events: `${PROGRESS_DIR}/${EVENTS_FILE}`
+    };
+}
+
+/**
+ * Follows the events file written by the progress listener. The file is polled
+ * rather than watched because file events are unreliable on Docker bind mounts.
+ */
+export class RunProgressTracker implements vscode.Disposable {
+    private static readonly pollMs = 500;
+    private readonly _onDidUpdate = new vscode.EventEmitter<RunProgress>();
+    private readonly timer: NodeJS.Timeout;
+    private offset = 0;
+    private partialLine = '';
+    private _progress: RunProgress;
+    // Test counts of the top-level suites and open keywords, per Robot process (pabot runs several)
+    private readonly totals = new Map<number, number>();
+    private readonly keywords = new Map<number, string[]>();
+
+    readonly onDidUpdate = this._onDidUpdate.event;
+
+    constructor(private readonly eventsFile: string, startTime: number) {
+        this._progress = { startTime, total: 0, completed: 0, passed: 0, failed: 0, skipped: 0 };
+        this.timer = setInterval(() => this.poll(), RunProgressTracker.pollMs);
+    }
+
+    get progress(): RunProgress {
+        return this._progress;
+    }
+
+    private poll() {
+        let content: Buffer;
+        try {
+            const size = fs.statSync(this.eventsFile).size;
+            if (size <= this.offset) {
+                return;
+            }
+            const fd = fs.openSync(this.eventsFile, 'r');
+            try {
+                content = Buffer.alloc(size - this.offset);
+                fs.readSync(fd, content, 0, content.length, this.offset);
+            } finally {
+                fs.closeSync(fd);
+            }
+            this.offset = size;
+        } catch {
+            // The listener has not created the file yet
+            return;
+        }
+
+        const lines = (this.partialLine + content.toString('utf-8')).split('\n');
+        this.partialLine = lines.pop() ?? '';
+
+        let changed = false;
+        for (const line of lines) {
+            try {
+                changed = this.apply(JSON.parse(line)) || changed;
+            } catch {
+                // Skip lines that are not complete JSON events
+            }
+        }
+
+        if (changed) {
+            this._onDidUpdate.fire({ ...this._progress });
+        }
+    }
+
+    private apply(event: ListenerEvent): boolean {
+        const progress = this._progress;
+        const keywords = this.keywords.get(event.pid) ?? [];
+        this.keywords.set(event.pid, keywords);
+
+        switch (event.event) {
+            case 'start_suite':
+                if (event.top && typeof event.total === 'number') {
+                    this.totals.set(event.pid, event.total);
+                    progress.total = Array.from(this.totals.values()).reduce((sum, count) => sum + count, 0);
+                }
+                progress.currentSuite = event.longname ?? event.name;
+                return true;
+            case 'start_test':
+                progress.currentTest = event.longname ?? event.name;
+                progress.currentKeyword = undefined;
+                keywords.length = 0;
+                return true;
+            case 'end_test':
+                progress.completed++;
+                if (event.status === 'PASS') {
+                    progress.passed++;
+                } else if (event.status === 'FAIL') {
+                    progress.failed++;
+                } else {
+                    progress.skipped++;
+                }
+                return true;
+            case 'start_keyword':
+                keywords.push(event.name ?? '');
+                progress.currentKeyword = event.name;
+                return true;
+            case 'end_keyword':
+                keywords.pop();
+                progress.currentKeyword = keywords[keywords.length - 1];
+                return true;
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Read the remaining events and stop polling
+     */
+    dispose() {
+        clearInterval(this.timer);
+        this.poll();
+        this._onDidUpdate.dispose();
+    }
+}
@@ -0,0 +1,280 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as net from 'net';
+import * as path from 'path';
+
+const MIME_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.htm': 'text/html; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.json': 'application/json; charset=utf-8',
+    '.xml': 'application/xml; charset=utf-8',
+    '.txt': 'text/plain; charset=utf-8',
+    '.log': 'text/plain; charset=utf-8',
+    '.csv': 'text/csv; charset=utf-8',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.ico': 'image/x-icon',
+    '.webm': 'video/webm',
+    '.mp4': 'video/mp4',
+    '.zip': 'application/zip',
+    '.har': 'application/json; charset=utf-8',
+    '.pdf': 'application/pdf'
+};
+
+function escapeHtml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Parse a single "bytes=start-end" range. Returns null when the range cannot be satisfied
+ * and undefined when the header is missing or asks for several ranges, which are served whole.
+ */
+export function parseRange(header: string | undefined, size: number): { start: number; end: number } | null | undefined {
+    const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+    if (!match || (!match[1] && !match[2])) {
+        return undefined;
+    }
+
+    let start: number;
+    let end: number;
+    if (!match[1]) {
+        // Suffix range: the last N bytes
+        start = Math.max(0, size - parseInt(match[2], 10));
+        end = size - 1;
+    } else {
+        start = parseInt(match[1], 10);
+        end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+    }
+
+    return start <= end && start < size ? { start, end } : null;
+}
+
+/**
+ * Whether a URL path names a dot file or folder (.git, .env, .rf-test-runner), which are never served
+ */
+function isHiddenPath(urlPath: string): boolean {
+    return urlPath.split('/').some(segment => segment.startsWith('.'));
+}
+
+/**
+ * Static file server for a results directory, bound to localhost. Serves directory
+ * listings and byte ranges, so videos and Playwright traces can be streamed and seeked.
+ * Only answers requests addressed to localhost, so other sites cannot read it through
+ * DNS rebinding, and only serves files whose real path is inside the directory.
+ */
+export class StaticResultsServer {
+    private server?: http.Server;
+    // Open connections, closed on stop so it does not wait for keep-alive clients
+    private readonly sockets = new Set<net.Socket>();
+
+    constructor(private readonly rootDir: string, private readonly log: (line: string) => void) {}
+
+    get isListening(): boolean {
+        return !!this.server?.listening;
+    }
+
+    /**
+     * Port the server listens on, once started (start(0) picks a free one)
+     */
+    get port(): number | undefined {
+        const address = this.server?.address();
+        return typeof address === 'object' && address ? address.port : undefined;
+    }
+
+    /**
+     * Start listening; rejects when the port cannot be bound
+     */
+    start(port: number): Promise<void> {
+        if (this.server) {
+            return Promise.resolve();
+        }
+
+        const server = http.createServer((request, response) => this.handle(request, response));
+        server.on('connection', socket => {
+            this.sockets.add(socket);
+            socket.on('close', () => this.sockets.delete(socket));
+        });
+
+        return new Promise((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, '127.0.0.1', () => {
+                server.off('error', reject);
+                server.on('error', error => this.log(`Server error: ${error.message}`));
+                this.server = server;
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Stop listening and close every open connection. Resolves once the port is free.
+     */
+    stop(): Promise<void> {
+        const server = this.server;
+        this.server = undefined;
+        if (!server) {
+            return Promise.resolve();
+        }
+
+        return new Promise(resolve => {
+            server.close(() => resolve());
+            this.sockets.forEach(socket => socket.destroy());
+            this.sockets.clear();
+        });
+    }
+
+    /**
+     * The Host header a browser sends for this server: 127.0.0.1 or localhost with its port
+     */
+    private isLocalHost(host: string | undefined): boolean {
+        const port = this.port;
+        return !!host && port !== undefined && [`127.0.0.1:${port}`, `localhost:${port}`].includes(host.toLowerCase());
+    }
+
+    /**
+     * Real path of a file below the root, or undefined when it (or a symlink on the way) leads outside
+     */
+    private async resolveInside(filePath: string): Promise<string | undefined> {
+        const [root, real] = await Promise.all([fs.promises.realpath(this.rootDir), fs.promises.realpath(filePath)]);
+        return real === root || real.startsWith(root + path.sep) ? real : undefined;
+    }
+
+    private handle(request: http.IncomingMessage, response: http.ServerResponse) {
+        if (!this.isLocalHost(request.headers.host)) {
+            this.sendError(response, 403, 'Forbidden');
+            return;
+        }
+
+        if (request.method !== 'GET' && request.method !== 'HEAD') {
+            this.sendError(response, 405, 'Method Not Allowed');
+            return;
+        }
+
+        let urlPath: string;
+        try {
+            urlPath = decodeURIComponent(new URL(request.url ?? '/', 'http://localhost').pathname);
+        } catch {
+            this.sendError(response, 400, 'Bad Request');
+            return;
+        }
+
+        // Resolve inside the root only; ".." segments cannot escape it
+        const filePath = path.join(this.rootDir, path.normalize(urlPath));
+        if (isHiddenPath(urlPath) || (filePath !== this.rootDir && !filePath.startsWith(this.rootDir + path.sep))) {
+            this.sendError(response, 404, 'Not Found');
+            return;
+        }
+
+        this.resolveInside(filePath).then(realPath => {
+            if (!realPath) {
+                this.sendError(response, 404, 'Not Found');
+                return;
+            }
+            this.sendPath(request, response, realPath, urlPath);
+        }, () => this.sendError(response, 404, 'Not Found'));
+    }
+
+    private sendPath(request: http.IncomingMessage, response: http.ServerResponse, filePath: string, urlPath: string) {
+        fs.stat(filePath, (error, stats) => {
+            if (error) {
+                this.sendError(response, 404, 'Not Found');
+            } else if (stats.isDirectory()) {
+                if (!urlPath.endsWith('/')) {
+                    response.writeHead(301, { Location: `${encodeURI(urlPath)}/` });
+                    response.end();
+                } else {
+                    this.sendDirectory(request, response, filePath, urlPath);
+                }
+            } else {
+                this.sendFile(request, response, filePath, stats);
+            }
+        });
+    }
+
+    private sendDirectory(request: http.IncomingMessage, response: http.ServerResponse, dirPath: string, urlPath: string) {
+        // Like http.server, a directory with an index page shows the page
+        const index = path.join(dirPath, 'index.html');
+        if (fs.existsSync(index)) {
+            this.resolveInside(index).then(
+                realIndex => realIndex
+                    ? this.sendFile(request, response, realIndex, fs.statSync(realIndex))
+                    : this.sendError(response, 404, 'Not Found'),
+                () => this.sendError(response, 404, 'Not Found')
+            );
+            return;
+        }
+
+        fs.readdir(dirPath, { withFileTypes: true }, (error, entries) => {
+            if (error) {
+                this.sendError(response, 403, 'Forbidden');
+                return;
+            }
+
+            const links = entries
+                .filter(entry => !entry.name.startsWith('.'))
+                .sort((a, b) => Number(b.isDirectory()) - Number(a.isDirectory()) || a.name.localeCompare(b.name))
+                .map(entry => {
+                    const name = entry.isDirectory() ? `${entry.name}/` : entry.name;
+                    return `<li><a href="${escapeHtml(encodeURIComponent(entry.name) + (entry.isDirectory() ? '/' : ''))}">${escapeHtml(name)}</a></li>`;
+                });
+            if (urlPath !== '/') {
+                links.unshift('<li><a href="../">../</a></li>');
+            }
+
+            const body = `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>Index of ${escapeHtml(urlPath)}</title></head>
+<body><h1>Index of ${escapeHtml(urlPath)}</h1><ul>${links.join('')}</ul></body></html>`;
+
+            response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', 'Content-Length': Buffer.byteLength(body) });
+            response.end(request.method === 'HEAD' ? undefined : body);
+        });
+    }
+
+    private sendFile(request: http.IncomingMessage, response: http.ServerResponse, filePath: string, stats: fs.Stats) {
+        const headers: http.OutgoingHttpHeaders = {
+            'Content-Type': MIME_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream',
+            'Accept-Ranges': 'bytes',
+            'Last-Modified': stats.mtime.toUTCString(),
+            // Results are rewritten by every run
+            'Cache-Control': 'no-cache'
+        };
+
+        const range = parseRange(request.headers.range, stats.size);
+        if (range === null) {
+            response.writeHead(416, { 'Content-Range': `bytes */${stats.size}` });
+            response.end();
+            return;
+        }
+
+        const start = range?.start ?? 0;
+        const end = range?.end ?? stats.size - 1;
+        headers['Content-Length'] = stats.size === 0 ? 0 : end - start + 1;
+        if (range) {
+            headers['Content-Range'] = `bytes ${start}-${end}/${stats.size}`;
+        }
+
+        response.writeHead(range ? 206 : 200, headers);
+        if (request.method === 'HEAD' || stats.size === 0) {
+            response.end();
+            return;
+        }
+
+        const stream = fs.createReadStream(filePath, { start, end });
+        stream.on('error', error => {
+            this.log(`Could not read ${filePath}: ${error.message}`);
+            response.destroy();
+        });
+        stream.pipe(response);
+    }
+
+    private sendError(response: http.ServerResponse, status: number, message: string) {
+        response.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+        response.end(`${status} ${message}`);
+    }
+}
@@ -0,0 +1,63 @@
+/**
+ * Robot Framework tag pattern matching for --include/--exclude expressions.
+ *
+ * Mirrors Robot's precedence: a pattern is first split on NOT, each part on OR
+ * and each of those on AND. Tags and patterns are compared case-, space- and
+ * underscore-insensitively, and may use the * and ? wildcards.
+ */
+
+type TagPredicate = (tags: string[]) => boolean;
+
+function normalize(value: string): string {
+    return value.toLowerCase().replace(/[\s_]/g, '');
+}
+
+function globToRegExp(pattern: string): RegExp {
+    const source = normalize(pattern)
+        .split('')
+        .map(ch => ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+        .join('');
+    return new RegExp(`^${source}$`);
+}
+
+function single(pattern: string): TagPredicate {
+    const regexp = globToRegExp(pattern.trim());
+    return tags => tags.some(tag => regexp.test(normalize(tag)));
+}
+
+function and(pattern: string): TagPredicate {
+    const parts = pattern.replace(/&/g, 'AND').split('AND').map(single);
+    return tags => parts.every(part => part(tags));
+}
+
+function or(pattern: string): TagPredicate {
+    const parts = pattern.split('OR').map(and);
+    return tags => parts.some(part => part(tags));
+}
+
+/**
+ * Compile a single Robot tag pattern such as "smokeANDuat", "api OR ui" or "regression NOT flaky"
+ */
+export function compileTagPattern(pattern: string): TagPredicate {
+    const [mustMatch, ...mustNotMatch] = pattern.split('NOT').map(part => part.trim());
+    const positive = mustMatch ? or(mustMatch) : () => true;
+    const negatives = mustNotMatch.filter(part => part).map(or);
+    return tags => positive(tags) && !negatives.some(negative => negative(tags));
+}
+
+/**
+ * Parse newline separated patterns, ignoring blank lines
+ */
+export function parseTagPatterns(text: string): string[] {
+    return text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+}
+
+/**
+ * Decide whether a test with the given tags is selected by --include/--exclude patterns
+ */
+export function matchesTagFilter(tags: string[], include: string[], exclude: string[]): boolean {
+    if (include.length > 0 && !include.some(pattern => compileTagPattern(pattern)(tags))) {
+        return false;
+    }
+    return !exclude.some(pattern => compileTagPattern(pattern)(tags));
+}
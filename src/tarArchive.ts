@@ -0,0 +1,159 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+const BLOCK = 512;
+
+function readString(header: Buffer, offset: number, length: number): string {
+    const field = header.subarray(offset, offset + length);
+    const end = field.indexOf(0);
+    return field.subarray(0, end === -1 ? length : end).toString('utf-8');
+}
+
+/**
+ * Entry size: octal text, or base-256 when the high bit is set (entries over 8 GB)
+ */
+function readSize(header: Buffer): number {
+    if (header[124] & 0x80) {
+        let size = 0;
+        for (let i = 125; i < 136; i++) {
+            size = size * 256 + header[i];
+        }
+        return size;
+    }
+    return parseInt(readString(header, 124, 12).trim() || '0', 8);
+}
+
+/**
+ * Path of a pax extended header ("<length> <key>=<value>\n" records), if it has one
+ */
+function readPaxPath(data: Buffer): string | undefined {
+    let offset = 0;
+    let result: string | undefined;
+    while (offset < data.length) {
+        const space = data.indexOf(0x20, offset);
+        const length = parseInt(data.toString('utf-8', offset, space), 10);
+        if (space === -1 || !length) {
+            break;
+        }
+        const record = data.toString('utf-8', space + 1, offset + length - 1);
+        if (record.startsWith('path=')) {
+            result = record.slice(5);
+        }
+        offset += length;
+    }
+    return result;
+}
+
+interface Entry {
+    type: string;
+    name: string;
+    remaining: number;
+    padding: number;
+    file?: fs.promises.FileHandle;
+    meta?: Buffer[];      // Body of a pax or GNU long name header
+}
+
+/**
+ * Extract a tar stream into a directory, as returned by the Docker archive endpoint.
+ * Only directories and regular files are written; links and devices are skipped, and
+ * entries whose path would leave `destDir` are ignored. Resolves to the number of files.
+ */
+export async function extractTar(source: AsyncIterable<Buffer>, destDir: string, stripComponents: number = 0): Promise<number> {
+    const root = path.resolve(destDir);
+    let pending: Buffer = Buffer.alloc(0);
+    let entry: Entry | undefined;
+    let skip = 0;
+    let nextName: string | undefined;
+    let files = 0;
+
+    const target = (name: string): string | undefined => {
+        const parts = name.split('/').filter(part => part && part !== '.').slice(stripComponents);
+        if (parts.length === 0 || parts.includes('..')) {
+            return undefined;
+        }
+        const resolved = path.join(root, ...parts);
+        return resolved.startsWith(root + path.sep) ? resolved : undefined;
+    };
+
+    const openEntry = async (header: Buffer): Promise<Entry> => {
+        const type = String.fromCharCode(header[156] || 0x30);
+        const prefix = readString(header, 257, 6) === 'ustar' ? readString(header, 345, 155) : '';
+        const name = nextName ?? (prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100));
+        const size = readSize(header);
+        const opened: Entry = { type, name, remaining: size, padding: (BLOCK - size % BLOCK) % BLOCK };
+
+        if (type === 'x' || type === 'L') {
+            opened.meta = [];
+            return opened;
+        }
+        nextName = undefined;
+
+        const file = target(name);
+        if (file && type === '5') {
+            await fs.promises.mkdir(file, { recursive: true });
+        } else if (file && (type === '0' || type === '7')) {
+            await fs.promises.mkdir(path.dirname(file), { recursive: true });
+            opened.file = await fs.promises.open(file, 'w');
+            files++;
+        }
+        return opened;
+    };
+
+    const closeEntry = async (closed: Entry) => {
+        await closed.file?.close();
+        if (closed.meta) {
+            const data = Buffer.concat(closed.meta);
+            nextName = closed.type === 'x' ? readPaxPath(data) ?? nextName : readString(data, 0, data.length);
+        }
+    };
+
+    try {
+        for await (const chunk of source) {
+            pending = pending.length ? Buffer.concat([pending, chunk]) : chunk;
+
+            while (pending.length > 0) {
+                if (entry) {
+                    const take = Math.min(entry.remaining, pending.length);
+                    const data = pending.subarray(0, take);
+                    if (entry.file) {
+                        await entry.file.write(data);
+                    } else if (entry.meta) {
+                        entry.meta.push(Buffer.from(data));
+                    }
+                    entry.remaining -= take;
+                    pending = pending.subarray(take);
+                    if (entry.remaining === 0) {
+                        await closeEntry(entry);
+                        skip = entry.padding;
+                        entry = undefined;
+                    }
+                } else if (skip > 0) {
+                    const take = Math.min(skip, pending.length);
+                    skip -= take;
+                    pending = pending.subarray(take);
+                } else if (pending.length >= BLOCK) {
+                    const header = pending.subarray(0, BLOCK);
+                    pending = pending.subarray(BLOCK);
+                    // Two zero blocks end the archive; skipping them one at a time is enough
+                    if (header.every(byte => byte === 0)) {
+                        continue;
+                    }
+                    entry = await openEntry(header);
+                    if (entry.remaining === 0) {
+                        await closeEntry(entry);
+                        entry = undefined;
+                    }
+                } else {
+                    break;
+                }
+            }
+        }
+    } finally {
+        await entry?.file?.close();
+    }
+
+    if (entry) {
+        throw new Error('Archive ended in the middle of an entry');
+    }
+    return files;
+}
@@ -0,0 +1,29 @@
+import './vscodeStub';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createDebugConfiguration, toRobotInvocation } from '../debugConfiguration';
+
+const words = [
+    '--headless', '--captcha-solver', 'True', '--window-width', '1280', '--parallel', '--processes', '4',
+    '--log-level', 'TRACE', '--include', 'smoke', '-v', 'USER:admin:secret', 'Tests/login.robot'
+];
+
+test('script options set only the Robot variables they are mapped to', () => {
+    const invocation = toRobotInvocation(words, { '--headless': 'HEADLESS', '--window-width': 'WIDTH', '--captcha-solver': '' });
+
+    assert.deepEqual(invocation.args, ['--loglevel', 'TRACE', '--include', 'smoke']);
+    assert.deepEqual(invocation.variables, { HEADLESS: 'True', WIDTH: '1280', USER: 'admin:secret' });
+    assert.deepEqual(invocation.paths, ['Tests/login.robot']);
+    assert.deepEqual(invocation.skipped, ['--captcha-solver']);
+});
+
+test('without a mapping script options are skipped, not guessed', () => {
+    const invocation = toRobotInvocation(['--record-video', 'False', '--constructor', 'x', '--headless']);
+
+    assert.deepEqual(invocation.variables, {});
+    assert.deepEqual(invocation.skipped, ['--record-video', '--constructor', '--headless']);
+
+    const launch = createDebugConfiguration(toRobotInvocation(words), '/ws', 'Debug tests');
+    assert.deepEqual(launch.variables, { USER: 'admin:secret' });
+    assert.equal(launch.cwd, '/ws');
+});
@@ -0,0 +1,314 @@
+import { settings } from './vscodeStub';
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { CONTAINER_LABEL, DockerEngineClient } from '../dockerEngine';
+import { extractTar } from '../tarArchive';
+import { TestRunner, defaultConfig } from '../testRunner';
+
+type Handler = (request: http.IncomingMessage, body: string, response: http.ServerResponse) => void;
+
+/**
+ * A Docker Engine stand-in on a Unix socket. Records each request as "METHOD /path" and
+ * answers with the current handler.
+ */
+class FakeEngine {
+    readonly calls: string[] = [];
+    readonly bodies = new Map<string, unknown>();
+    handler: Handler = (_request, _body, response) => {
+        response.statusCode = 500;
+        response.end('{"message":"unexpected request"}');
+    };
+    private readonly server: http.Server;
+
+    constructor(readonly socketPath: string) {
+        this.server = http.createServer((request, response) => {
+            let body = '';
+            request.setEncoding('utf-8');
+            request.on('data', data => body += data);
+            request.on('end', () => {
+                const call = `${request.method} ${request.url}`;
+                this.calls.push(call);
+                if (body) {
+                    this.bodies.set(call, JSON.parse(body));
+                }
+                this.handler(request, body, response);
+            });
+        });
+    }
+
+    listen(): Promise<void> {
+        return new Promise(resolve => this.server.listen(this.socketPath, resolve));
+    }
+
+    close(): Promise<void> {
+        this.server.closeAllConnections();
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+}
+
+/**
+ * Header of one Engine log frame: stream type, three zero bytes and the big-endian length
+ */
+function frame(stream: number, data: Buffer): Buffer {
+    const header = Buffer.alloc(8);
+    header[0] = stream;
+    header.writeUInt32BE(data.length, 4);
+    return Buffer.concat([header, data]);
+}
+
+/**
+ * One ustar entry with its padding
+ */
+function tarEntry(name: string, content: string = '', type: string = '0'): Buffer {
+    const data = Buffer.from(content);
+    const header = Buffer.alloc(512);
+    header.write(name, 0, 100);
+    header.write('0000644\0', 100);
+    header.write(`${data.length.toString(8).padStart(11, '0')}\0`, 124);
+    header.write('00000000000\0', 136);
+    header.write(type, 156);
+    header.write('ustar\0' + '00', 257);
+    header.fill(' ', 148, 156);
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148);
+    return Buffer.concat([header, data, Buffer.alloc((512 - data.length % 512) % 512)]);
+}
+
+function tarArchive(...entries: Buffer[]): Buffer {
+    return Buffer.concat([...entries, Buffer.alloc(1024)]);
+}
+
+/**
+ * Send a buffer in small pieces, so readers see headers and characters split across chunks
+ */
+async function writeInPieces(response: http.ServerResponse, data: Buffer, size: number) {
+    for (let offset = 0; offset < data.length; offset += size) {
+        response.write(data.subarray(offset, offset + size));
+        await new Promise(resolve => setTimeout(resolve, 2));
+    }
+    response.end();
+}
+
+async function* chunksOf(data: Buffer, size: number): AsyncIterable<Buffer> {
+    for (let offset = 0; offset < data.length; offset += size) {
+        yield data.subarray(offset, offset + size);
+    }
+}
+
+let dir: string;
+let engine: FakeEngine;
+let client: DockerEngineClient;
+
+before(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rf-engine-'));
+    engine = new FakeEngine(path.join(dir, 'docker.sock'));
+    await engine.listen();
+    client = new DockerEngineClient(engine.socketPath);
+});
+
+after(async () => {
+    await engine.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test('creates, starts and waits for a container', { skip: process.platform === 'win32' }, async () => {
+    engine.calls.length = 0;
+    engine.handler = (request, _body, response) => {
+        if (request.url === '/containers/create') {
+            response.statusCode = 201;
+            response.end('{"Id":"c0ffee","Warnings":[]}');
+        } else if (request.url === '/containers/c0ffee/start') {
+            response.statusCode = 204;
+            response.end();
+        } else if (request.url === '/containers/c0ffee/json') {
+            response.end('{"NetworkSettings":{"Ports":{"6080/tcp":[{"HostIp":"127.0.0.1","HostPort":"49153"}]}}}');
+        } else if (request.url === '/containers/c0ffee/wait') {
+            response.end('{"StatusCode":3}');
+        }
+    };
+
+    const id = await client.createContainer({
+        image: 'robot:latest',
+        cmd: ['robot', '--name', `it's $HOME`, 'Tests'],
+        workingDir: '/workspace',
+        binds: ['/home/me/project:/workspace'],
+        labels: { [CONTAINER_LABEL]: '/home/me/project' },
+        ports: [6080]
+    });
+    assert.equal(id, 'c0ffee');
+    await client.startContainer(id);
+    assert.equal(await client.publishedPort(id, 6080), 49153);
+    assert.equal(await client.waitContainer(id), 3);
+
+    assert.deepEqual(engine.calls, [
+        'POST /containers/create',
+        'POST /containers/c0ffee/start',
+        'GET /containers/c0ffee/json',
+        'POST /containers/c0ffee/wait'
+    ]);
+    const created = engine.bodies.get('POST /containers/create') as Record<string, any>;
+    assert.deepEqual(created.Cmd, ['robot', '--name', `it's $HOME`, 'Tests']);
+    assert.equal(created.Tty, false);
+    assert.deepEqual(created.Labels, { [CONTAINER_LABEL]: '/home/me/project' });
+    assert.deepEqual(created.HostConfig.Binds, ['/home/me/project:/workspace']);
+    assert.deepEqual(created.HostConfig.PortBindings, { '6080/tcp': [{ HostIp: '127.0.0.1', HostPort: '' }] });
+});
+
+test('reports the Engine error message and an unreachable socket', { skip: process.platform === 'win32' }, async () => {
+    engine.handler = (_request, _body, response) => {
+        response.statusCode = 404;
+        response.end('{"message":"No such container: gone"}');
+    };
+    await assert.rejects(client.startContainer('gone'), { message: 'No such container: gone' });
+    assert.equal(await client.imageExists('missing:latest'), false);
+
+    const unreachable = new DockerEngineClient(path.join(dir, 'missing.sock'));
+    await assert.rejects(unreachable.ping(), /Cannot reach the Docker Engine at .*missing\.sock/);
+});
+
+test('followLogs demultiplexes frames, keeping characters split across frames whole', { skip: process.platform === 'win32' }, async () => {
+    const euro = Buffer.from('€');
+    const logs = Buffer.concat([
+        frame(1, Buffer.from('line one\n')),
+        frame(1, Buffer.concat([Buffer.from('x'), euro.subarray(0, 2)])),
+        frame(2, Buffer.from('ошибка\n')),
+        frame(1, Buffer.concat([euro.subarray(2), Buffer.from(' テスト\n')]))
+    ]);
+    engine.handler = (request, _body, response) => {
+        assert.equal(request.url, '/containers/c0ffee/logs?follow=true&stdout=true&stderr=true');
+        writeInPieces(response, logs, 5);
+    };
+
+    let output = '';
+    await client.followLogs('c0ffee', text => output += text);
+    assert.equal(output, 'line one\nxошибка\n€ テスト\n');
+});
+
+test('copyFromContainer writes the files of the directory and nothing outside it', { skip: process.platform === 'win32' }, async () => {
+    const target = path.join(dir, 'results');
+    const archive = tarArchive(
+        tarEntry('rf-results/', '', '5'),
+        tarEntry('rf-results/output.xml', '<robot/>'),
+        tarEntry('rf-results/browser/video.webm', 'video'),
+        tarEntry('rf-results/../escaped.txt', 'escaped'),
+        tarEntry('rf-results/nested/../../../outside.txt', 'outside'),
+        tarEntry('rf-results/link', '', '2')
+    );
+    engine.handler = (request, _body, response) => {
+        assert.equal(request.url, '/containers/c0ffee/archive?path=%2Ftmp%2Frf-results');
+        writeInPieces(response, archive, 300);
+    };
+
+    assert.equal(await client.copyFromContainer('c0ffee', '/tmp/rf-results', target), 2);
+    assert.equal(fs.readFileSync(path.join(target, 'output.xml'), 'utf-8'), '<robot/>');
+    assert.equal(fs.readFileSync(path.join(target, 'browser', 'video.webm'), 'utf-8'), 'video');
+    assert.deepEqual(fs.readdirSync(target).sort(), ['browser', 'output.xml']);
+    assert.equal(fs.existsSync(path.join(dir, 'escaped.txt')), false);
+    assert.equal(fs.existsSync(path.join(dir, 'outside.txt')), false);
+    assert.equal(fs.existsSync(path.join(os.tmpdir(), 'outside.txt')), false);
+});
+
+test('extractTar follows pax and GNU long names, still refusing escaping ones', async () => {
+    const target = path.join(dir, 'long-names');
+    const longName = `out/${'deep/'.repeat(30)}log.html`;
+    const paxRecord = (value: string) => {
+        const record = ` path=${value}\n`;
+        let length = record.length;
+        length += String(length + String(length).length).length;
+        return `${length}${record}`;
+    };
+    const archive = tarArchive(
+        tarEntry('PaxHeaders/1', paxRecord(longName), 'x'),
+        tarEntry('short-pax-name', 'pax'),
+        tarEntry('././@LongLink', `${longName.replace('log.html', 'report.html')}\0`, 'L'),
+        tarEntry('short-gnu-name', 'gnu'),
+        tarEntry('PaxHeaders/2', paxRecord('out/../../pax-escape.txt'), 'x'),
+        tarEntry('harmless', 'escape')
+    );
+
+    assert.equal(await extractTar(chunksOf(archive, 7), target, 1), 2);
+    assert.equal(fs.readFileSync(path.join(target, longName.slice(4)), 'utf-8'), 'pax');
+    assert.equal(fs.readFileSync(path.join(target, longName.slice(4).replace('log.html', 'report.html')), 'utf-8'), 'gnu');
+    assert.equal(fs.existsSync(path.join(dir, 'pax-escape.txt')), false);
+
+    const truncated = tarEntry('out/cut.txt', 'x'.repeat(600)).subarray(0, 700);
+    await assert.rejects(extractTar(chunksOf(truncated, 100), target, 1), /ended in the middle of an entry/);
+});
+
+test('stopping an Engine API run stops and removes its container', { skip: process.platform === 'win32', timeout: 20000 }, async () => {
+    const workspace = path.join(dir, 'workspace');
+    fs.mkdirSync(workspace);
+    settings.set('liveProgress', false);
+    settings.set('dockerExecution', 'engineApi');
+    settings.set('dockerSocket', engine.socketPath);
+    settings.set('dockerOutputDirectory', 'results');
+
+    let exited: (() => void) | undefined;
+    engine.calls.length = 0;
+    engine.handler = (request, _body, response) => {
+        const url = request.url ?? '';
+        if (url === '/_ping') {
+            response.end('OK');
+        } else if (url.startsWith('/containers/json')) {
+            response.end('[]');
+        } else if (url === '/containers/create') {
+            response.statusCode = 201;
+            response.end('{"Id":"run1"}');
+        } else if (url === '/containers/run1/start' || url.startsWith('/containers/run1/stop')) {
+            response.statusCode = 204;
+            response.end();
+            if (url.includes('/stop')) {
+                exited?.();
+            }
+        } else if (url === '/containers/run1/json') {
+            response.end('{"NetworkSettings":{"Ports":{"6080/tcp":[{"HostIp":"127.0.0.1","HostPort":"49154"}]}}}');
+        } else if (url.startsWith('/containers/run1/logs')) {
+            response.write(frame(1, Buffer.from('running\n')));
+            exited = () => response.end();
+        } else if (url === '/containers/run1/wait') {
+            // Answers once the container has been stopped
+            const poll = setInterval(() => {
+                if (engine.calls.some(call => call.startsWith('POST /containers/run1/stop'))) {
+                    clearInterval(poll);
+                    response.end('{"StatusCode":137}');
+                }
+            }, 10);
+        } else if (url.startsWith('/containers/run1/archive')) {
+            response.end(tarArchive(tarEntry('rf-results/output.xml', '<robot/>')));
+        } else if (request.method === 'DELETE') {
+            response.statusCode = 204;
+            response.end();
+        }
+    };
+
+    const runner = new TestRunner(workspace);
+    try {
+        const started = new Promise(resolve => runner.onDidStartDockerRun(resolve));
+        const runId = await runner.run('docker', { ...defaultConfig, imageName: 'robot:latest' });
+        assert.notEqual(runId, undefined);
+        await started;
+
+        runner.stop();
+        const result = await runner.whenFinished(runId!);
+        assert.equal(result?.exitCode, 137);
+        assert.deepEqual(engine.calls.filter(call => !call.startsWith('GET /containers/run1/logs')), [
+            'GET /_ping',
+            `GET /containers/json?all=true&filters=${encodeURIComponent(JSON.stringify({ label: [`${CONTAINER_LABEL}=${workspace}`] }))}`,
+            'POST /containers/create',
+            'POST /containers/run1/start',
+            'GET /containers/run1/json',
+            'POST /containers/run1/wait',
+            'POST /containers/run1/stop?t=10',
+            'GET /containers/run1/archive?path=%2Ftmp%2Frf-results',
+            'DELETE /containers/run1?force=true&v=true'
+        ]);
+        assert.equal(fs.readFileSync(path.join(workspace, 'results', 'output.xml'), 'utf-8'), '<robot/>');
+    } finally {
+        runner.dispose();
+        settings.clear();
+    }
+});
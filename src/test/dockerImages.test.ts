@@ -0,0 +1,29 @@
+import './vscodeStub';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DockerImageManager } from '../dockerImages';
+
+test('image lines docker prints that are not JSON are skipped', { skip: process.platform === 'win32' }, async () => {
+    const bin = fs.mkdtempSync(path.join(os.tmpdir(), 'rf-images-'));
+    fs.writeFileSync(path.join(bin, 'docker'), [
+        '#!/bin/sh',
+        `echo '{"ID":"abc123","Repository":"robot-framework-custom","Tag":"latest","Size":"1.2GB","CreatedSince":"3 days ago"}'`,
+        'echo "WARNING: Error loading config file"',
+        `echo '{"ID":"def456","Repository":"robot-framework-custom","Tag":"v2"'`
+    ].join('\n') + '\n', { mode: 0o755 });
+    const originalPath = process.env.PATH;
+    const images = new DockerImageManager(bin);
+    try {
+        process.env.PATH = `${bin}${path.delimiter}${originalPath}`;
+        assert.deepEqual(await images.list(), [
+            { id: 'abc123', repository: 'robot-framework-custom', tag: 'latest', size: '1.2GB', created: '3 days ago' }
+        ]);
+    } finally {
+        process.env.PATH = originalPath;
+        images.dispose();
+        fs.rmSync(bin, { recursive: true, force: true });
+    }
+});
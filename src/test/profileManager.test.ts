@@ -0,0 +1,36 @@
+import { settings } from './vscodeStub';
+import { afterEach, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ProfileManager } from '../profileManager';
+import { defaultConfig } from '../testRunner';
+
+afterEach(() => settings.clear());
+
+test('names inherited from Object.prototype are no profiles', async () => {
+    settings.set('profiles', { Smoke: { headless: true } });
+    settings.set('defaultProfile', 'toString');
+    const profiles = new ProfileManager();
+
+    assert.equal(profiles.defaultProfile, undefined);
+    for (const name of ['toString', 'constructor', 'hasOwnProperty', '__proto__']) {
+        assert.equal(profiles.has(name), false, name);
+        assert.equal(profiles.getConfig(name), undefined, name);
+    }
+    await assert.rejects(profiles.duplicate('constructor', 'Copy'), /does not exist/);
+    await assert.rejects(profiles.rename('toString', 'Renamed'), /does not exist/);
+});
+
+test('saved profiles resolve to complete configurations', async () => {
+    settings.set('profiles', { Smoke: { headless: true } });
+    settings.set('defaultProfile', 'Smoke');
+    const profiles = new ProfileManager();
+
+    assert.equal(profiles.defaultProfile, 'Smoke');
+    assert.deepEqual(profiles.getConfig('Smoke'), { ...defaultConfig, headless: true });
+
+    // A profile may be called like an Object.prototype member once it has been saved
+    await profiles.save('toString', { ...defaultConfig, logLevel: 'DEBUG', rerunFailed: 'results/output.xml' });
+    assert.equal(profiles.has('toString'), true);
+    assert.deepEqual(profiles.getConfig('toString'), { ...defaultConfig, logLevel: 'DEBUG' });
+    assert.deepEqual(profiles.names, ['Smoke', 'toString']);
+});
@@ -0,0 +1,42 @@
+import { settings, shownMessages } from './vscodeStub';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { ResultsServiceManager } from '../resultsService';
+
+function freePort(): Promise<number> {
+    return new Promise(resolve => {
+        const server = net.createServer();
+        server.listen(0, () => {
+            const port = (server.address() as net.AddressInfo).port;
+            server.close(() => resolve(port));
+        });
+    });
+}
+
+test('stopping the service while it starts is neither an error nor a reason to restart', async () => {
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'rf-service-'));
+    // Never answers HTTP, so the service stays in the starting state
+    fs.writeFileSync(path.join(workspace, 'serve_results.sh'), 'exec sleep 30\n');
+    settings.set('resultsRestartPolicy', 'onExit');
+    const service = new ResultsServiceManager(workspace);
+    try {
+        const started = service.start(await freePort());
+        await new Promise(resolve => setTimeout(resolve, 500));
+        assert.equal(service.status, 'starting');
+
+        await service.stop();
+        assert.equal(await started, false);
+        await new Promise(resolve => setTimeout(resolve, 500));
+        assert.equal(service.status, 'stopped');
+        assert.deepEqual(shownMessages.filter(message => !message.startsWith('info: ')), []);
+    } finally {
+        settings.clear();
+        shownMessages.length = 0;
+        service.dispose();
+        fs.rmSync(workspace, { recursive: true, force: true });
+    }
+});
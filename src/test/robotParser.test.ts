@@ -0,0 +1,192 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseRobotFile, parseRobotSource, suiteNameFromPath, tokenizeLine } from '../robotParser';
+
+function lines(...rows: string[]): string {
+    return rows.join('\n');
+}
+
+test('tokenizeLine splits space, tab and pipe separated rows', () => {
+    assert.deepEqual(tokenizeLine('Log    two  spaces\tand tab'), ['Log', 'two', 'spaces', 'and tab']);
+    assert.deepEqual(tokenizeLine('    Log    indented'), ['', 'Log', 'indented']);
+    assert.deepEqual(tokenizeLine('| Test Name | Log | hello |'), ['Test Name', 'Log', 'hello']);
+    assert.deepEqual(tokenizeLine('|  | Log | no closing pipe'), ['', 'Log', 'no closing pipe']);
+    assert.deepEqual(tokenizeLine('| | Should Be Equal | a|b | a|b |'), ['', 'Should Be Equal', 'a|b', 'a|b']);
+    assert.deepEqual(tokenizeLine('    Log    kept    # dropped    too'), ['', 'Log', 'kept']);
+});
+
+test('pipe separated suites are parsed like space separated ones', () => {
+    const model = parseRobotSource(lines(
+        '| *** Settings *** |',
+        '| Test Tags | smoke |',
+        '',
+        '| *** Test Cases *** |',
+        '| Valid Login | [Tags] | login |',
+        '| | Open Browser | http://example.com | chromium |',
+        '| | ${title}= | Get Title |'
+    ), '/ws/Tests/pipes.robot');
+
+    assert.equal(model.tests.length, 1);
+    const [login] = model.tests;
+    assert.equal(login.name, 'Valid Login');
+    assert.deepEqual(login.effectiveTags, ['smoke', 'login']);
+    assert.deepEqual(login.body.map(call => call.name), ['Open Browser', 'Get Title']);
+    assert.deepEqual(login.body[0].args, ['http://example.com', 'chromium']);
+    assert.deepEqual(login.body[1].assign, ['${title}']);
+    assert.equal(login.endLine, 6);
+});
+
+test('continuation rows extend the statement before them', () => {
+    const model = parseRobotSource(lines(
+        '*** Settings ***',
+        'Documentation    First line',
+        '...    second line',
+        'Test Tags    one',
+        '...    two',
+        '',
+        '*** Variables ***',
+        '@{LIST}    a',
+        '...    b    c',
+        '',
+        '*** Test Cases ***',
+        'Long Call',
+        '    [Tags]',
+        '    ...    three',
+        '    Log Many    x',
+        '    ...    y',
+        '    ...    # comment only',
+        '    ...    z'
+    ), '/ws/Tests/continued.robot');
+
+    assert.equal(model.documentation, 'First line\nsecond line');
+    assert.deepEqual(model.testTags, ['one', 'two']);
+    assert.deepEqual(model.variables, [{ name: '@{LIST}', value: ['a', 'b', 'c'], line: 7 }]);
+    const [longCall] = model.tests;
+    assert.deepEqual(longCall.effectiveTags, ['one', 'two', 'three']);
+    assert.deepEqual(longCall.body, [{ name: 'Log Many', args: ['x', 'y', 'z'], assign: [], line: 14 }]);
+    assert.equal(longCall.endLine, 17);
+});
+
+test('templated tests hold argument rows instead of keyword calls', () => {
+    const model = parseRobotSource(lines(
+        '*** Settings ***',
+        'Test Template    Login Should Fail',
+        '',
+        '*** Test Cases ***',
+        'Empty Password    admin    ${EMPTY}',
+        'Wrong Password',
+        '    admin    wrong',
+        '    guest    wrong',
+        'Own Template',
+        '    [Template]    Login Should Pass',
+        '    admin    secret',
+        'Not Templated',
+        '    [Template]    NONE',
+        '    Log    runs normally'
+    ), '/ws/Tests/templates.robot');
+
+    const [empty, wrong, own, plain] = model.tests;
+    assert.equal(empty.template, 'Login Should Fail');
+    assert.deepEqual(empty.body, []);
+    assert.equal(wrong.template, 'Login Should Fail');
+    assert.deepEqual(wrong.body, []);
+    assert.equal(wrong.endLine, 7);
+    assert.equal(own.template, 'Login Should Pass');
+    assert.deepEqual(own.body, []);
+    assert.equal(plain.template, undefined);
+    assert.deepEqual(plain.body.map(call => call.name), ['Log']);
+});
+
+test('__init__ files describe their directory suite', () => {
+    const model = parseRobotSource(lines(
+        '*** Settings ***',
+        'Suite Setup    Connect    db',
+        'Test Tags    api'
+    ), '/ws/Tests/02__user_api/__init__.robot');
+
+    assert.equal(model.isInit, true);
+    assert.equal(model.name, 'User Api');
+    assert.equal(model.hasTestSection, false);
+    assert.deepEqual(model.suiteSetup, { name: 'Connect', args: ['db'], assign: [], line: 1 });
+    assert.deepEqual(model.testTags, ['api']);
+    assert.equal(suiteNameFromPath('/ws/Tests/01__Login_Flow.robot'), 'Login Flow');
+});
+
+test('the Comments section and text before the first section are ignored', () => {
+    const model = parseRobotSource(lines(
+        'Free text before any section    with    cells',
+        '*** Comments ***',
+        'Not A Test',
+        '    Log    ignored',
+        '*** Test Cases ***',
+        'Real Test',
+        '    Log    kept',
+        '*** Comment ***',
+        'Also Not A Test'
+    ), '/ws/Tests/comments.robot');
+
+    assert.deepEqual(model.tests.map(t => t.name), ['Real Test']);
+    assert.equal(model.tests[0].endLine, 6);
+});
+
+test('[Tags] replaces Default Tags and -tag removes inherited tags', () => {
+    const model = parseRobotSource(lines(
+        '*** Settings ***',
+        'Test Tags    smoke    Slow',
+        'Default Tags    regression',
+        '',
+        '*** Test Cases ***',
+        'Defaulted',
+        '    No Operation',
+        'Own Tags',
+        '    [Tags]    login    -slow',
+        '    No Operation',
+        'Removes Default',
+        '    [Tags]    -regression',
+        '    No Operation'
+    ), '/ws/Tests/tags.robot');
+
+    const tags = Object.fromEntries(model.tests.map(t => [t.name, t.effectiveTags]));
+    assert.deepEqual(tags['Defaulted'], ['smoke', 'Slow', 'regression']);
+    assert.deepEqual(tags['Own Tags'], ['smoke', 'login']);
+    assert.deepEqual(tags['Removes Default'], ['smoke', 'Slow']);
+});
+
+test('.resource and .tsv files are read from disk', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rf-parser-'));
+    try {
+        const resource = path.join(dir, 'common.resource');
+        fs.writeFileSync(resource, lines(
+            '*** Settings ***',
+            'Library    Browser',
+            '',
+            '*** Keywords ***',
+            'Open App',
+            '    [Arguments]    ${url}',
+            '    New Page    ${url}'
+        ));
+        const keywordsOnly = parseRobotFile(resource);
+        assert.equal(keywordsOnly.hasTestSection, false);
+        assert.deepEqual(keywordsOnly.imports, [{ type: 'Library', name: 'Browser', args: [], line: 1 }]);
+        assert.deepEqual(keywordsOnly.keywords.map(k => [k.name, k.arguments]), [['Open App', ['${url}']]]);
+
+        const tsv = path.join(dir, 'legacy_suite.tsv');
+        fs.writeFileSync(tsv, '\uFEFF' + lines(
+            '*Test Cases*',
+            'First Test\tLog\tinline step',
+            '\tShould Be True\t${True}',
+            '',
+            '*Keywords*',
+            'Helper\tNo Operation'
+        ).replace(/\n/g, '\r\n'));
+        const model = parseRobotFile(tsv);
+        assert.equal(model.name, 'Legacy Suite');
+        assert.deepEqual(model.tests.map(t => [t.name, t.body.map(call => call.name)]), [['First Test', ['Log', 'Should Be True']]]);
+        assert.deepEqual(model.keywords.map(k => k.name), ['Helper']);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,78 @@
+import { settings } from './vscodeStub';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { RunHistory } from '../runHistory';
+import { RobotResults } from '../outputParser';
+import { RunResult, defaultConfig } from '../testRunner';
+
+function memento(): vscode.Memento {
+    const values = new Map<string, unknown>();
+    return {
+        keys: () => [...values.keys()],
+        get: <T>(key: string, defaultValue?: T) => values.has(key) ? values.get(key) as T : defaultValue,
+        update: async (key: string, value: unknown) => { values.set(key, value); }
+    } as vscode.Memento;
+}
+
+function finishedRun(workspace: string, report: string, startTime: number): RunResult {
+    const resultsDir = path.join(workspace, 'results');
+    fs.mkdirSync(resultsDir, { recursive: true });
+    fs.writeFileSync(path.join(resultsDir, 'output.xml'), `<robot>${report}</robot>`);
+    fs.writeFileSync(path.join(resultsDir, 'report.html'), report);
+    fs.writeFileSync(path.join(resultsDir, 'log.html'), `log of ${report}`);
+    return {
+        runId: startTime,
+        workspaceRoot: workspace,
+        mode: 'local',
+        config: { ...defaultConfig },
+        command: './run_tests_local.sh',
+        exitCode: 0,
+        startTime,
+        endTime: startTime + 1000,
+        results: { outputPath: path.join(resultsDir, 'output.xml'), passed: 1, failed: 0, skipped: 0 } as RobotResults
+    };
+}
+
+test('each recorded run keeps its own report after later runs overwrite the results folder', async () => {
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'rf-history-'));
+    const history = new RunHistory(memento());
+    try {
+        const first = await history.add(finishedRun(workspace, 'first run', 1000));
+        const second = await history.add(finishedRun(workspace, 'second run', 2000));
+
+        assert.equal(fs.readFileSync(history.reportFile(first.id)!, 'utf-8'), 'first run');
+        assert.equal(fs.readFileSync(history.reportFile(second.id)!, 'utf-8'), 'second run');
+        assert.equal(fs.readFileSync(path.join(first.reportDir!, 'log.html'), 'utf-8'), 'log of first run');
+        assert.equal(path.dirname(first.reportDir!), path.join(workspace, '.rf-test-runner', 'history'));
+
+        await history.remove(first.id);
+        assert.equal(fs.existsSync(first.reportDir!), false);
+        assert.equal(fs.existsSync(second.reportDir!), true);
+    } finally {
+        history.dispose();
+        fs.rmSync(workspace, { recursive: true, force: true });
+    }
+});
+
+test('runs dropped beyond historySize lose their report copies', async () => {
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'rf-history-'));
+    const history = new RunHistory(memento());
+    settings.set('historySize', 1);
+    try {
+        const first = await history.add(finishedRun(workspace, 'first run', 1000));
+        const second = await history.add(finishedRun(workspace, 'second run', 2000));
+        assert.deepEqual(history.records.map(record => record.id), [second.id]);
+        assert.equal(fs.existsSync(first.reportDir!), false);
+
+        await history.clear();
+        assert.equal(fs.existsSync(second.reportDir!), false);
+    } finally {
+        settings.clear();
+        history.dispose();
+        fs.rmSync(workspace, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,109 @@
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { StaticResultsServer, parseRange } from '../staticServer';
+
+test('parseRange reads single byte ranges', () => {
+    assert.deepEqual(parseRange('bytes=0-99', 1000), { start: 0, end: 99 });
+    assert.deepEqual(parseRange('bytes=500-', 1000), { start: 500, end: 999 });
+    assert.deepEqual(parseRange('bytes=-100', 1000), { start: 900, end: 999 });
+    assert.deepEqual(parseRange('bytes=-5000', 1000), { start: 0, end: 999 });
+    assert.deepEqual(parseRange('bytes=900-5000', 1000), { start: 900, end: 999 });
+});
+
+test('parseRange serves missing and multiple ranges whole and refuses unsatisfiable ones', () => {
+    assert.equal(parseRange(undefined, 1000), undefined);
+    assert.equal(parseRange('bytes=-', 1000), undefined);
+    assert.equal(parseRange('bytes=0-1,5-6', 1000), undefined);
+    assert.equal(parseRange('items=0-1', 1000), undefined);
+    assert.equal(parseRange('bytes=1000-', 1000), null);
+    assert.equal(parseRange('bytes=20-10', 1000), null);
+    assert.equal(parseRange('bytes=0-0', 0), null);
+});
+
+let dir: string;
+let server: StaticResultsServer;
+
+/**
+ * GET a raw (not normalized) path from the server, by default with a localhost Host header
+ */
+function get(rawPath: string, host?: string, headers: http.OutgoingHttpHeaders = {}): Promise<{ status: number; body: string }> {
+    return new Promise((resolve, reject) => {
+        const request = http.request({
+            host: '127.0.0.1',
+            port: server.port,
+            path: rawPath,
+            headers: { host: host ?? `localhost:${server.port}`, ...headers }
+        }, response => {
+            let body = '';
+            response.setEncoding('utf-8');
+            response.on('data', data => body += data);
+            response.on('end', () => resolve({ status: response.statusCode ?? 0, body }));
+        });
+        request.on('error', reject);
+        request.end();
+    });
+}
+
+before(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rf-static-'));
+    const results = path.join(dir, 'results');
+    fs.mkdirSync(path.join(results, 'browser'), { recursive: true });
+    fs.mkdirSync(path.join(results, '.hidden'));
+    fs.writeFileSync(path.join(results, 'report.html'), 'report');
+    fs.writeFileSync(path.join(results, 'browser', 'video.webm'), '0123456789');
+    fs.writeFileSync(path.join(results, '.hidden', 'note.txt'), 'hidden');
+    fs.writeFileSync(path.join(results, '.env'), 'SECRET=1');
+    fs.writeFileSync(path.join(dir, 'secret.txt'), 'outside');
+    if (process.platform !== 'win32') {
+        fs.symlinkSync(path.join(dir, 'secret.txt'), path.join(results, 'link-out.txt'));
+        fs.symlinkSync(dir, path.join(results, 'link-dir'));
+        fs.symlinkSync(path.join(results, 'report.html'), path.join(results, 'link-in.html'));
+    }
+    server = new StaticResultsServer(results, () => undefined);
+    await server.start(0);
+});
+
+after(async () => {
+    await server.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test('serves files, listings and ranges to localhost', async () => {
+    assert.deepEqual(await get('/report.html'), { status: 200, body: 'report' });
+    assert.deepEqual(await get('/browser/video.webm', `127.0.0.1:${server.port}`, { range: 'bytes=2-4' }), { status: 206, body: '234' });
+
+    const listing = await get('/');
+    assert.equal(listing.status, 200);
+    assert.match(listing.body, /href="report\.html"/);
+    assert.doesNotMatch(listing.body, /\.hidden|\.env/);
+});
+
+test('refuses requests addressed to another host name', async () => {
+    assert.equal((await get('/report.html', `attacker.example:${server.port}`)).status, 403);
+    assert.equal((await get('/report.html', 'localhost:1')).status, 403);
+    assert.equal((await get('/report.html', `localhost.attacker.example:${server.port}`)).status, 403);
+});
+
+test('keeps requests inside the served folder', async () => {
+    for (const rawPath of ['/../secret.txt', '/%2e%2e/secret.txt', '/..%2fsecret.txt', '/browser/%2E%2E/%2e%2e/secret.txt', '/..%5csecret.txt']) {
+        const response = await get(rawPath);
+        assert.notEqual(response.body, 'outside', rawPath);
+        assert.ok([400, 404].includes(response.status), `${rawPath}: ${response.status}`);
+    }
+});
+
+test('does not serve dot files and folders', async () => {
+    assert.equal((await get('/.env')).status, 404);
+    assert.equal((await get('/.hidden/note.txt')).status, 404);
+    assert.equal((await get('/%2ehidden/note.txt')).status, 404);
+});
+
+test('does not follow symlinks out of the served folder', { skip: process.platform === 'win32' }, async () => {
+    assert.equal((await get('/link-out.txt')).status, 404);
+    assert.equal((await get('/link-dir/secret.txt')).status, 404);
+    assert.deepEqual(await get('/link-in.html'), { status: 200, body: 'report' });
+});
@@ -0,0 +1,256 @@
+import { settings, shownMessages } from './vscodeStub';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { TestConfig, TestRunner, defaultConfig, formatCommand } from '../testRunner';
+
+const runner = new TestRunner('/workspace');
+
+function config(overrides: Partial<TestConfig>): TestConfig {
+    return { ...defaultConfig, ...overrides };
+}
+
+/**
+ * Value following the last occurrence of an option
+ */
+function optionValue(args: string[], option: string): string | undefined {
+    const index = args.lastIndexOf(option);
+    return index === -1 ? undefined : args[index + 1];
+}
+
+const awkward = [
+    `it's`,
+    'cost $HOME ${USER}',
+    'run `id` now',
+    '"double" and \\ backslash',
+    'Ünïcödé テスト ✓',
+    'first line\nsecond line',
+    '; rm -rf / #',
+    '-starts-like-an-option',
+    ''
+];
+
+test('buildCommand passes titles, variables and test names as single arguments', () => {
+    for (const value of awkward) {
+        const { args } = runner.buildCommand('local', config({
+            reportTitle: value,
+            testCaseNames: [value],
+            customVariables: `NAME:${value.replace(/\n/g, ' ')}`
+        }));
+        assert.equal(optionValue(args, '--report-title'), value);
+        assert.equal(optionValue(args, '--test'), value);
+        assert.equal(optionValue(args, '-v'), `NAME:${value.replace(/\n/g, ' ')}`.trim());
+    }
+});
+
+test('buildCommand puts one argument per custom variable line', () => {
+    const { args } = runner.buildCommand('local', config({ customVariables: 'A:1\n  B:two words  \n\nC:$x' }));
+    const variables = args.filter((_, i) => args[i - 1] === '-v');
+    assert.deepEqual(variables, ['A:1', 'B:two words', 'C:$x']);
+});
+
+test('buildCommand ends with one argument per selected suite', () => {
+    const { executable, args } = runner.buildCommand('docker', config({
+        selections: [
+            { type: 'suite', name: 'Login', path: 'Tests/Login.robot' },
+            { type: 'suite', name: 'My Suite', path: `Tests/My Suite's $dir/Checkout.robot` },
+            { type: 'suite', name: 'Login', path: 'Tests/Login.robot' }
+        ]
+    }));
+    assert.equal(executable, './run_tests.sh');
+    assert.deepEqual(args.slice(-2), ['Tests/Login.robot', `Tests/My Suite's $dir/Checkout.robot`]);
+});
+
+test('buildCommand qualifies selected tests by suite and adds a wildcard with several paths', () => {
+    const { args } = runner.buildCommand('local', config({
+        selections: [
+            { type: 'test', name: 'Valid Login', path: 'Tests/Login.robot', testName: 'Valid Login' },
+            { type: 'test', name: 'Pay', path: 'Tests/checkout_flow.robot', testName: 'Pay' }
+        ]
+    }));
+    const tests = args.filter((_, i) => args[i - 1] === '--test');
+    assert.deepEqual(tests, ['*.Login.Valid Login', '*.Checkout Flow.Pay']);
+    assert.deepEqual(args.slice(-2), ['Tests/Login.robot', 'Tests/checkout_flow.robot']);
+});
+
+test('buildCommand runs each module of a selection and otherwise the test roots', () => {
+    const modules = runner.buildCommand('local', config({
+        selections: [
+            { type: 'module', name: 'Tests/API', path: 'Tests/API' },
+            { type: 'module', name: 'Tests/UI', path: 'Tests/UI' }
+        ]
+    }));
+    assert.deepEqual(modules.args.slice(-2), ['Tests/API', 'Tests/UI']);
+
+    const all = runner.buildCommand('local', config({}));
+    assert.equal(all.args[all.args.length - 1], 'Tests');
+});
+
+test('buildCommand keeps a typed path as one argument', () => {
+    const { args } = runner.buildCommand('local', config({ customTestPath: '  Tests/With Space/Suite.robot  ' }));
+    assert.equal(args[args.length - 1], 'Tests/With Space/Suite.robot');
+});
+
+test('formatCommand leaves plain arguments unquoted', () => {
+    assert.equal(
+        formatCommand({ executable: './run_tests.sh', args: ['--headless', '--log-level', 'TRACE:INFO', 'Tests/a-b_c.robot', 'x=1,y@2%'] }),
+        './run_tests.sh --headless --log-level TRACE:INFO Tests/a-b_c.robot x=1,y@2%'
+    );
+});
+
+test('formatCommand quotes arguments with shell characters', () => {
+    assert.equal(
+        formatCommand({ executable: './run_tests.sh', args: [`it's`, '$HOME', '`id`', 'a b', ''] }),
+        `./run_tests.sh 'it'\\''s' '$HOME' '\`id\`' 'a b' ''`
+    );
+});
+
+test('formatCommand output gives the same arguments back when run by a shell', { skip: process.platform === 'win32' }, () => {
+    // printf prints each argument followed by a NUL byte
+    const shown = formatCommand({ executable: 'printf', args: ['%s\\0', ...awkward] });
+    const output = cp.execFileSync('/bin/sh', ['-c', shown], { encoding: 'utf-8' });
+    assert.deepEqual(output.split('\0').slice(0, -1), awkward);
+});
+
+test('a run that cannot start hands over to the runs queued behind it', { skip: process.platform === 'win32', timeout: 20000 }, async () => {
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'rf-queue-'));
+    fs.writeFileSync(path.join(workspace, 'run_tests_local.sh'), '#!/bin/sh\nexit 0\n', { mode: 0o755 });
+    settings.set('liveProgress', false);
+    settings.set('dockerExecution', 'engineApi');
+    settings.set('dockerSocket', path.join(workspace, 'no-docker.sock'));
+    const queued = new TestRunner(workspace);
+    try {
+        // The Docker run fails its Engine ping, after the local run was queued behind it
+        const docker = queued.run('docker', config({}));
+        const local = await queued.run('local', config({}));
+        assert.equal(queued.queue.length, 1);
+        assert.equal(await docker, undefined);
+
+        const result = await queued.whenFinished(local!);
+        assert.equal(result?.runId, local);
+        assert.equal(result?.exitCode, 0);
+        assert.equal(queued.queue.length, 0);
+    } finally {
+        queued.dispose();
+        settings.clear();
+        fs.rmSync(workspace, { recursive: true, force: true });
+    }
+});
+
+test('buildMergeCommand merges with workspace-relative paths', () => {
+    const workspace = path.join(os.tmpdir(), 'rf-merge');
+    const merging = new TestRunner(workspace);
+    const rerun = config({ rerunFailed: path.join('results', 'rerun-base-output.xml') });
+
+    assert.deepEqual(merging.buildMergeCommand(rerun, path.join(workspace, 'results', 'output.xml')), {
+        executable: 'rebot',
+        args: [
+            '--merge',
+            '--outputdir', 'results',
+            '--output', 'merged-output.xml',
+            '--log', 'merged-log.html',
+            '--report', 'merged-report.html',
+            'results/rerun-base-output.xml',
+            'results/output.xml'
+        ]
+    });
+    // A container sees only the mounted workspace folder
+    assert.equal(merging.buildMergeCommand(rerun, path.join(os.tmpdir(), 'elsewhere', 'output.xml')), undefined);
+    merging.dispose();
+});
+
+const OUTPUT_XML = '<robot><suite name="Suite"><test name="Flaky"><status status="PASS"/></test><status status="PASS"/></suite></robot>';
+
+/**
+ * Rerun the failed tests of results/rerun-base-output.xml with a script writing a passing output.xml
+ */
+async function rerunWithPath(workspace: string, searchPath: string) {
+    fs.mkdirSync(path.join(workspace, 'results'), { recursive: true });
+    fs.writeFileSync(path.join(workspace, 'results', 'rerun-base-output.xml'), OUTPUT_XML);
+    // Results older than the run are ignored, and file times can trail the clock by a few milliseconds
+    const sleep = cp.execFileSync('/bin/sh', ['-c', 'command -v sleep'], { encoding: 'utf-8' }).trim();
+    fs.writeFileSync(path.join(workspace, 'run_tests_local.sh'), `#!/bin/sh\n${sleep} 0.1\nprintf '%s' '${OUTPUT_XML}' > results/output.xml\n`, { mode: 0o755 });
+    settings.set('liveProgress', false);
+    const originalPath = process.env.PATH;
+    const rerunner = new TestRunner(workspace);
+    try {
+        process.env.PATH = searchPath;
+        const runId = await rerunner.run('local', config({ rerunFailed: 'results/rerun-base-output.xml' }));
+        return await rerunner.whenFinished(runId!);
+    } finally {
+        process.env.PATH = originalPath;
+        rerunner.dispose();
+        settings.clear();
+    }
+}
+
+test('rerun results are merged by the rebot on the PATH', { skip: process.platform === 'win32', timeout: 20000 }, async () => {
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'rf-merge-'));
+    const bin = path.join(workspace, 'bin');
+    fs.mkdirSync(bin);
+    // Records its arguments and writes the merged output where it was asked to
+    fs.writeFileSync(path.join(bin, 'rebot'), `#!/bin/sh\nprintf '%s\\n' "$@" > rebot-args.txt\nprintf '%s' '${OUTPUT_XML}' > "$3/$5"\nexit 1\n`, { mode: 0o755 });
+    try {
+        const result = await rerunWithPath(workspace, bin);
+        assert.deepEqual(fs.readFileSync(path.join(workspace, 'rebot-args.txt'), 'utf-8').trim().split('\n'), [
+            '--merge', '--outputdir', 'results', '--output', 'merged-output.xml', '--log', 'merged-log.html',
+            '--report', 'merged-report.html', 'results/rerun-base-output.xml', 'results/output.xml'
+        ]);
+        assert.equal(result?.results?.outputPath, path.join(workspace, 'results', 'merged-output.xml'));
+    } finally {
+        fs.rmSync(workspace, { recursive: true, force: true });
+    }
+});
+
+test('without rebot the merge is skipped with one notice', { skip: process.platform === 'win32', timeout: 20000 }, async () => {
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'rf-merge-'));
+    shownMessages.length = 0;
+    try {
+        const result = await rerunWithPath(workspace, path.join(workspace, 'no-bin'));
+        assert.equal(result?.results?.outputPath, path.join(workspace, 'results', 'output.xml'));
+        assert.equal(result?.results?.passed, 1);
+        assert.deepEqual(shownMessages.filter(message => message.includes('merge')), [
+            'info: Rerun results were not merged into the original report: rebot is not installed on this machine'
+        ]);
+        assert.equal(shownMessages.some(message => message.startsWith('error') || message.includes('Could not merge')), false);
+    } finally {
+        fs.rmSync(workspace, { recursive: true, force: true });
+    }
+});
+
+test('a run whose wrap-up fails still finishes and starts the next queued run', { skip: process.platform === 'win32', timeout: 20000 }, async () => {
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'rf-exit-'));
+    fs.writeFileSync(path.join(workspace, 'run_tests_local.sh'), '#!/bin/sh\nexit 0\n', { mode: 0o755 });
+    settings.set('liveProgress', false);
+    const window = vscode.window as { showInformationMessage: (message: string) => unknown };
+    const showInformationMessage = window.showInformationMessage;
+    window.showInformationMessage = message => {
+        if (message.startsWith('Tests completed')) {
+            throw new Error('toast failed');
+        }
+        return showInformationMessage(message);
+    };
+    shownMessages.length = 0;
+    const failing = new TestRunner(workspace);
+    const statuses: boolean[] = [];
+    failing.setOnStatusChange(running => statuses.push(running));
+    try {
+        const first = await failing.run('local', config({}));
+        const second = await failing.run('local', config({}));
+
+        assert.equal((await failing.whenFinished(first!))?.exitCode, 0);
+        assert.equal((await failing.whenFinished(second!))?.exitCode, 0);
+        assert.equal(failing.isRunning, false);
+        assert.equal(statuses[statuses.length - 1], false);
+        assert.ok(shownMessages.includes('error: Could not process the results of the run: toast failed'));
+    } finally {
+        window.showInformationMessage = showInformationMessage;
+        failing.dispose();
+        settings.clear();
+        fs.rmSync(workspace, { recursive: true, force: true });
+    }
+});
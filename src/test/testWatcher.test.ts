@@ -0,0 +1,71 @@
+import { FileSystemWatcher, fileWatchers, settings } from './vscodeStub';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { TestFileWatcher } from '../testWatcher';
+import { SUITE_EXTENSIONS } from '../testDiscovery';
+
+const root = path.resolve('/ws');
+
+function wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Whether a watcher's glob, the catch-all or the suite file glob, matches a path
+ */
+function matches(watcher: FileSystemWatcher, relativePath: string): boolean {
+    return watcher.globPattern.pattern === '**/*' || SUITE_EXTENSIONS.includes(path.extname(relativePath));
+}
+
+/**
+ * Fire the given events on a new watcher and collect what it reports once it settles
+ */
+async function changesAfter(events: ['create' | 'change' | 'delete', string][]): Promise<string[][]> {
+    fileWatchers.length = 0;
+    const watcher = new TestFileWatcher({ uri: vscode.Uri.file(root), name: 'ws', index: 0 } as vscode.WorkspaceFolder);
+    const reported: string[][] = [];
+    watcher.onDidChange(paths => reported.push(paths));
+    try {
+        for (const [kind, relativePath] of events) {
+            fileWatchers
+                .filter(fileWatcher => matches(fileWatcher, relativePath))
+                .forEach(fileWatcher => fileWatcher.fire(kind, path.join(root, relativePath)));
+        }
+        await wait(600);
+        return reported;
+    } finally {
+        watcher.dispose();
+    }
+}
+
+test('watches suite files and folder deletes only', async () => {
+    await changesAfter([]);
+    assert.deepEqual(fileWatchers.map(watcher => watcher.globPattern.pattern), ['**/*.{robot,txt,tsv,resource}', '**/*']);
+
+    const reported = await changesAfter([
+        ['change', 'Tests/login.robot'],
+        ['create', 'Tests/new_folder'],
+        ['delete', 'Tests/old_folder'],
+        ['change', 'Tests/old_folder']
+    ]);
+    assert.deepEqual(reported, [[path.join('Tests', 'login.robot'), path.join('Tests', 'old_folder')]]);
+});
+
+test('writes to the results folders and dot-folders do not trigger a rescan', async () => {
+    settings.set('resultsDirectory', 'out/report');
+    try {
+        const reported = await changesAfter([
+            ['create', 'results/output.txt'],
+            ['delete', 'results/browser'],
+            ['create', 'out/report/log.txt'],
+            ['create', '.rf-test-runner/history/1/output.txt'],
+            ['delete', '.git/refs'],
+            ['change', 'Tests/.hidden/copy.robot']
+        ]);
+        assert.deepEqual(reported, []);
+    } finally {
+        settings.clear();
+    }
+});
@@ -0,0 +1,99 @@
+import Module = require('module');
+
+/**
+ * Settings returned by the stubbed workspace.getConfiguration, by key. Missing keys use the default.
+ */
+export const settings = new Map<string, unknown>();
+
+/**
+ * Messages shown through window.show*Message, as "info: text", "warning: text" or "error: text"
+ */
+export const shownMessages: string[] = [];
+
+type Uri = { fsPath: string; scheme: string };
+
+class EventEmitter<T> {
+    private listeners: ((value: T) => void)[] = [];
+
+    event = (listener: (value: T) => void) => {
+        this.listeners.push(listener);
+        return { dispose: () => { this.listeners = this.listeners.filter(l => l !== listener); } };
+    };
+
+    fire(value: T) {
+        [...this.listeners].forEach(listener => listener(value));
+    }
+
+    dispose() {
+        this.listeners = [];
+    }
+}
+
+class RelativePattern {
+    constructor(readonly base: unknown, readonly pattern: string) {}
+}
+
+/**
+ * A watcher that reports what tests fire on it, honouring the ignore*Events flags
+ */
+export class FileSystemWatcher {
+    private readonly created = new EventEmitter<Uri>();
+    private readonly changed = new EventEmitter<Uri>();
+    private readonly deleted = new EventEmitter<Uri>();
+
+    readonly onDidCreate = this.created.event;
+    readonly onDidChange = this.changed.event;
+    readonly onDidDelete = this.deleted.event;
+
+    constructor(readonly globPattern: RelativePattern, private readonly ignore: [boolean?, boolean?, boolean?]) {}
+
+    fire(kind: 'create' | 'change' | 'delete', fsPath: string) {
+        const index = ['create', 'change', 'delete'].indexOf(kind);
+        if (!this.ignore[index]) {
+            [this.created, this.changed, this.deleted][index].fire({ fsPath, scheme: 'file' });
+        }
+    }
+
+    dispose() {}
+}
+
+/**
+ * Watchers created through the stubbed workspace.createFileSystemWatcher
+ */
+export const fileWatchers: FileSystemWatcher[] = [];
+
+/**
+ * The part of the vscode API the runner uses outside of an extension host
+ */
+const vscode = {
+    EventEmitter,
+    ConfigurationTarget: { Global: 1, Workspace: 2, WorkspaceFolder: 3 },
+    RelativePattern,
+    Uri: {
+        file: (fsPath: string) => ({ fsPath, scheme: 'file' })
+    },
+    window: {
+        createOutputChannel: () => ({ show() {}, clear() {}, append() {}, appendLine() {}, dispose() {} }),
+        showInformationMessage: async (message: string) => { shownMessages.push(`info: ${message}`); },
+        showWarningMessage: async (message: string) => { shownMessages.push(`warning: ${message}`); },
+        showErrorMessage: async (message: string) => { shownMessages.push(`error: ${message}`); }
+    },
+    workspace: {
+        getConfiguration: () => ({
+            get: <T>(key: string, defaultValue?: T) => settings.has(key) ? settings.get(key) as T : defaultValue,
+            update: async (key: string, value: unknown) => { settings.set(key, value); }
+        }),
+        createFileSystemWatcher: (pattern: RelativePattern, ...ignore: [boolean?, boolean?, boolean?]) => {
+            const watcher = new FileSystemWatcher(pattern, ignore);
+            fileWatchers.push(watcher);
+            return watcher;
+        }
+    }
+};
+
+// Import this module before any module that imports vscode
+const moduleLoader = Module as unknown as { _load: (request: string, ...rest: unknown[]) => unknown };
+const load = moduleLoader._load;
+moduleLoader._load = function (request: string, ...rest: unknown[]) {
+    return request === 'vscode' ? vscode : load.call(this, request, ...rest);
+};
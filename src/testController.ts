@@ -0,0 +1,285 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TestConfig, TestSelection } from './testRunner';
+import { TestItem } from './testDiscovery';
+import { RobotResults, RobotTestResult, isResultFor } from './outputParser';
+import { RobotWorkspace, WorkspaceManager } from './workspaceManager';
+
+interface ItemData {
+    workspace: RobotWorkspace;
+    item?: TestItem;  // Absent for the workspace folder nodes of multi-root workspaces
+}
+
+/**
+ * Exposes discovered Robot Framework tests in the built-in Test Explorer
+ */
+export class RFTestController implements vscode.Disposable {
+    private readonly controller: vscode.TestController;
+    // Discovery items keyed by Test Explorer item id
+    private itemData = new Map<string, ItemData>();
+    private readonly testsListener: vscode.Disposable;
+
+    constructor(
+        private readonly workspaces: WorkspaceManager,
+        private readonly getConfig: (workspace: RobotWorkspace) => TestConfig
+    ) {
+        this.controller = vscode.tests.createTestController('rfTestRunner', 'Robot Framework');
+        this.controller.refreshHandler = () => this.refresh();
+
+        this.controller.createRunProfile(
+            'Run (Docker)',
+            vscode.TestRunProfileKind.Run,
+            (request, token) => this.runHandler('docker', request, token),
+            true
+        );
+        this.controller.createRunProfile(
+            'Run (Local)',
+            vscode.TestRunProfileKind.Run,
+            (request, token) => this.runHandler('local', request, token)
+        );
+        this.controller.createRunProfile(
+            'Debug',
+            vscode.TestRunProfileKind.Debug,
+            (request, token) => this.runHandler('debug', request, token),
+            true
+        );
+
+        this.refresh();
+        this.testsListener = this.workspaces.onDidChangeTests(workspace => this.update(workspace));
+    }
+
+    /**
+     * Rebuild the Test Explorer tree from a fresh discovery scan. In multi-root
+     * workspaces every folder gets its own top-level node.
+     */
+    refresh() {
+        this.itemData.clear();
+        const items: vscode.TestItem[] = [];
+
+        for (const workspace of this.workspaces.workspaces) {
+            const children = workspace.discovery.scan().map(item => this.createItem(workspace, item));
+            if (!this.workspaces.isMultiRoot) {
+                items.push(...children);
+                continue;
+            }
+
+            const folderItem = this.controller.createTestItem(workspace.id, workspace.name, workspace.folder.uri);
+            folderItem.children.replace(children);
+            this.itemData.set(folderItem.id, { workspace });
+            items.push(folderItem);
+        }
+
+        this.controller.items.replace(items);
+    }
+
+    /**
+     * Replace the items of one workspace folder with its current discovery tree
+     */
+    private update(workspace: RobotWorkspace) {
+        for (const [id, data] of this.itemData) {
+            if (data.workspace === workspace && data.item) {
+                this.itemData.delete(id);
+            }
+        }
+
+        const children = workspace.discovery.items.map(item => this.createItem(workspace, item));
+        if (!this.workspaces.isMultiRoot) {
+            this.controller.items.replace(children);
+            return;
+        }
+        this.controller.items.get(workspace.id)?.children.replace(children);
+    }
+
+    private static idFor(workspace: RobotWorkspace, item: TestItem): string {
+        const itemId = item.type === 'test' ? `${item.path}::${item.testName}` : item.path;
+        return `${workspace.id}::${itemId}`;
+    }
+
+    private createItem(workspace: RobotWorkspace, item: TestItem): vscode.TestItem {
+        const uri = vscode.Uri.file(path.join(workspace.root, item.path));
+        const testItem = this.controller.createTestItem(RFTestController.idFor(workspace, item), item.name, uri);
+
+        if (item.line !== undefined) {
+            testItem.range = new vscode.Range(item.line, 0, item.endLine ?? item.line, 0);
+        }
+
+        if (item.tags && item.tags.length > 0) {
+            testItem.description = item.tags.join(', ');
+            testItem.tags = item.tags.map(tag => new vscode.TestTag(tag));
+        }
+
+        if (item.children) {
+            testItem.children.replace(item.children.map(child => this.createItem(workspace, child)));
+        }
+
+        this.itemData.set(testItem.id, { workspace, item });
+        return testItem;
+    }
+
+    /**
+     * Group the requested Test Explorer items by the workspace folder they belong to
+     */
+    private groupByWorkspace(request: vscode.TestRunRequest): Map<RobotWorkspace, vscode.TestItem[]> {
+        const groups = new Map<RobotWorkspace, vscode.TestItem[]>();
+        const included: vscode.TestItem[] = [];
+        if (request.include) {
+            included.push(...request.include);
+        } else {
+            this.controller.items.forEach(testItem => included.push(testItem));
+        }
+
+        for (const testItem of included) {
+            const data = this.itemData.get(testItem.id);
+            if (data) {
+                groups.set(data.workspace, [...(groups.get(data.workspace) ?? []), testItem]);
+            }
+        }
+
+        return groups;
+    }
+
+    /**
+     * Translate the requested Test Explorer items into test selections.
+     * A whole-folder request selects nothing, which runs every test root.
+     */
+    private buildSelections(request: vscode.TestRunRequest, included: vscode.TestItem[]): TestSelection[] {
+        if (!request.include) {
+            return [];
+        }
+
+        const excluded = new Set((request.exclude ?? []).map(item => item.id));
+        const selections: TestSelection[] = [];
+
+        for (const testItem of included) {
+            if (excluded.has(testItem.id)) {
+                continue;
+            }
+            const item = this.itemData.get(testItem.id)?.item;
+            if (!item) {
+                return [];
+            }
+            selections.push({ type: item.type, name: item.name, path: item.path, testName: item.testName });
+        }
+
+        return selections;
+    }
+
+    /**
+     * Collect the leaf test cases covered by the requested items
+     */
+    private collectTests(request: vscode.TestRunRequest, included: vscode.TestItem[]): vscode.TestItem[] {
+        const tests: vscode.TestItem[] = [];
+        const excluded = new Set((request.exclude ?? []).map(item => item.id));
+
+        const visit = (testItem: vscode.TestItem) => {
+            if (excluded.has(testItem.id)) {
+                return;
+            }
+            if (testItem.children.size === 0) {
+                tests.push(testItem);
+            } else {
+                testItem.children.forEach(visit);
+            }
+        };
+
+        included.forEach(visit);
+        return tests;
+    }
+
+    private async runHandler(
+        mode: 'docker' | 'local' | 'debug',
+        request: vscode.TestRunRequest,
+        token: vscode.CancellationToken
+    ): Promise<void> {
+        const run = this.controller.createTestRun(request);
+
+        // Each workspace folder has its own runner, so folders run side by side
+        await Promise.all(Array.from(this.groupByWorkspace(request)).map(([workspace, included]) =>
+            this.runInWorkspace(mode, workspace, request, included, run, token)
+        ));
+
+        run.end();
+    }
+
+    private async runInWorkspace(
+        mode: 'docker' | 'local' | 'debug',
+        workspace: RobotWorkspace,
+        request: vscode.TestRunRequest,
+        included: vscode.TestItem[],
+        run: vscode.TestRun,
+        token: vscode.CancellationToken
+    ): Promise<void> {
+        const testRunner = workspace.testRunner;
+        const config: TestConfig = {
+            ...this.getConfig(workspace),
+            selections: this.buildSelections(request, included),
+            customTestPath: '',
+            testCaseNames: []
+        };
+
+        const tests = this.collectTests(request, included);
+        tests.forEach(test => run.started(test));
+
+        // While the folder is busy the run is queued; it is identified by its ID
+        const runId = mode === 'debug' ? await testRunner.debug(config) : await testRunner.run(mode, config);
+        if (runId === undefined) {
+            tests.forEach(test => run.skipped(test));
+            return;
+        }
+
+        const cancellation = token.onCancellationRequested(() => testRunner.cancel(runId));
+        const result = await testRunner.whenFinished(runId);
+        cancellation.dispose();
+
+        // Removed from the queue before it started
+        if (!result) {
+            tests.forEach(test => run.skipped(test));
+            return;
+        }
+
+        if (result.results) {
+            this.reportResults(run, tests, result.results);
+            return;
+        }
+
+        const duration = result.endTime - result.startTime;
+        for (const test of tests) {
+            if (token.isCancellationRequested) {
+                run.skipped(test);
+            } else if (result.exitCode === 0) {
+                run.passed(test, duration);
+            } else {
+                run.failed(test, new vscode.TestMessage(`Robot Framework exited with code ${result.exitCode}`), duration);
+            }
+        }
+    }
+
+    /**
+     * Find the output.xml result for a discovered test case
+     */
+    private static findResult(item: TestItem, results: RobotResults): RobotTestResult | undefined {
+        return results.tests.find(test => isResultFor(test, item.path, item.testName ?? ''));
+    }
+
+    private reportResults(run: vscode.TestRun, tests: vscode.TestItem[], results: RobotResults) {
+        for (const test of tests) {
+            const item = this.itemData.get(test.id)?.item;
+            const result = item ? RFTestController.findResult(item, results) : undefined;
+
+            if (!result || result.status === 'NOT RUN') {
+                run.skipped(test);
+            } else if (result.status === 'PASS') {
+                run.passed(test, result.elapsedMs);
+            } else if (result.status === 'SKIP') {
+                run.skipped(test);
+            } else {
+                run.failed(test, new vscode.TestMessage(result.message || 'Test failed'), result.elapsedMs);
+            }
+        }
+    }
+
+    dispose() {
+        this.testsListener.dispose();
+        this.controller.dispose();
+    }
+}
@@ -0,0 +1,291 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { RobotSuiteModel, parseRobotFile } from './robotParser';
+
+export interface TestItem {
+    name: string;
+    path: string;
+    type: 'test' | 'suite' | 'module';
+    testName?: string;  // For individual test cases
+    line?: number;      // Zero-based line of the test case definition
+    endLine?: number;   // Zero-based last line of the test case
+    tags?: string[];    // Effective tags of a test case
+    documentation?: string;
+    template?: string;  // Template of a data-driven test case
+    children?: TestItem[];
+}
+
+// Files that may hold suites; .resource files only count when they contain tests
+export const SUITE_EXTENSIONS = ['.robot', '.txt', '.tsv', '.resource'];
+
+// Glob matching any file with one of the suite extensions
+export const SUITE_FILE_GLOB = `**/*.{${SUITE_EXTENSIONS.map(ext => ext.slice(1)).join(',')}}`;
+
+export interface DiscoverySettings {
+    testRoots: string[];  // Workspace-relative folders holding test suites
+    include: string[];    // Globs (workspace-relative) a suite file must match
+    exclude: string[];    // Globs (workspace-relative) excluding files and folders
+}
+
+/**
+ * Read the discovery settings, scoped to a workspace folder in multi-root workspaces
+ */
+export function getDiscoverySettings(scope?: vscode.Uri): DiscoverySettings {
+    const settings = vscode.workspace.getConfiguration('rfTestRunner', scope);
+    const roots = settings.get<string[]>('testRoots', ['Tests'])
+        .map(root => root.trim().replace(/[\\/]+$/, ''))
+        .filter(root => root.length > 0);
+
+    return {
+        testRoots: roots.length > 0 ? roots : ['Tests'],
+        include: settings.get<string[]>('include', [SUITE_FILE_GLOB]),
+        exclude: settings.get<string[]>('exclude', [])
+    };
+}
+
+/**
+ * Collect the suites of a discovery tree keyed by path
+ */
+export function collectSuites(items: TestItem[], suites = new Map<string, TestItem>()): Map<string, TestItem> {
+    for (const item of items) {
+        if (item.type === 'suite') {
+            suites.set(item.path, item);
+        } else if (item.children) {
+            collectSuites(item.children, suites);
+        }
+    }
+    return suites;
+}
+
+/**
+ * Convert a glob (**, *, ?, {a,b}) into an anchored regular expression on '/' separated paths
+ */
+function globToRegExp(glob: string): RegExp {
+    let source = '';
+    let braceDepth = 0;
+    for (let i = 0; i < glob.length; i++) {
+        const ch = glob[i];
+        if (ch === '*' && glob[i + 1] === '*') {
+            if (glob[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i += 1;
+            }
+        } else if (ch === '*') {
+            source += '[^/]*';
+        } else if (ch === '?') {
+            source += '[^/]';
+        } else if (ch === '{') {
+            source += '(?:';
+            braceDepth++;
+        } else if (ch === '}' && braceDepth > 0) {
+            source += ')';
+            braceDepth--;
+        } else if (ch === ',' && braceDepth > 0) {
+            source += '|';
+        } else {
+            source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+export class TestDiscovery {
+    // Parsed suite models keyed by workspace-relative path
+    private models = new Map<string, RobotSuiteModel>();
+    // Models of the previous scan that are still up to date and need no re-parse
+    private reusable = new Map<string, RobotSuiteModel>();
+    private _items: TestItem[] = [];
+    private includePatterns: RegExp[] = [];
+    private excludePatterns: RegExp[] = [];
+
+    constructor(private readonly workspaceRoot: string) {}
+
+    /**
+     * Tree built by the last scan
+     */
+    get items(): TestItem[] {
+        return this._items;
+    }
+
+    /**
+     * Suite found at a workspace-relative path by the last scan
+     */
+    findSuite(relativePath: string): TestItem | undefined {
+        return collectSuites(this._items).get(relativePath);
+    }
+
+    /**
+     * Scan the configured test roots and build the module → suite → test case tree.
+     * With a single root its contents are the top level; with several roots each
+     * root becomes a top-level module.
+     */
+    scan(): TestItem[] {
+        return this.build(new Map());
+    }
+
+    /**
+     * Rebuild the tree after file changes, re-parsing only the changed files.
+     * Paths are workspace-relative; a changed folder invalidates everything below it.
+     */
+    rescan(changedPaths: string[]): TestItem[] {
+        const reusable = new Map(this.models);
+        for (const relativePath of reusable.keys()) {
+            const changed = changedPaths.some(changedPath =>
+                relativePath === changedPath || relativePath.startsWith(changedPath + path.sep)
+            );
+            if (changed) {
+                reusable.delete(relativePath);
+            }
+        }
+        return this.build(reusable);
+    }
+
+    private build(reusable: Map<string, RobotSuiteModel>): TestItem[] {
+        this.models = new Map();
+        this.reusable = reusable;
+        this._items = this.scanRoots();
+        this.reusable.clear();
+        return this._items;
+    }
+
+    private scanRoots(): TestItem[] {
+        const settings = getDiscoverySettings(vscode.Uri.file(this.workspaceRoot));
+        this.includePatterns = settings.include.map(globToRegExp);
+        this.excludePatterns = settings.exclude.map(globToRegExp);
+
+        const roots = settings.testRoots.filter(root => {
+            const rootDir = path.join(this.workspaceRoot, root);
+            return fs.existsSync(rootDir) && fs.statSync(rootDir).isDirectory();
+        });
+
+        if (roots.length === 1) {
+            return this.scanDirectory(path.join(this.workspaceRoot, roots[0]), path.normalize(roots[0]), []);
+        }
+
+        const items: TestItem[] = [];
+        for (const root of roots) {
+            const children = this.scanDirectory(path.join(this.workspaceRoot, root), path.normalize(root), []);
+            if (children.length > 0) {
+                items.push({ name: root, path: path.normalize(root), type: 'module', children });
+            }
+        }
+        return items;
+    }
+
+    private static toGlobPath(relativePath: string): string {
+        return relativePath.split(path.sep).join('/').replace(/^\.\//, '');
+    }
+
+    private isExcluded(relativePath: string, isDirectory: boolean): boolean {
+        const globPath = TestDiscovery.toGlobPath(relativePath) + (isDirectory ? '/' : '');
+        return this.excludePatterns.some(pattern => pattern.test(globPath));
+    }
+
+    private isIncluded(relativePath: string): boolean {
+        const globPath = TestDiscovery.toGlobPath(relativePath);
+        return this.includePatterns.length === 0 || this.includePatterns.some(pattern => pattern.test(globPath));
+    }
+
+    /**
+     * Parsed model of a suite (or __init__ file) found by the last scan
+     */
+    getSuiteModel(relativePath: string): RobotSuiteModel | undefined {
+        return this.models.get(relativePath);
+    }
+
+    private scanDirectory(dirPath: string, relativePath: string, inheritedTags: string[]): TestItem[] {
+        const items: TestItem[] = [];
+
+        try {
+            const entries = fs.readdirSync(dirPath, { withFileTypes: true });
+
+            // __init__ files hold directory suite settings; their Test Tags apply to every test below
+            const initEntry = entries.find(entry => entry.isFile() && this.isInitFile(entry.name));
+            const initModel = initEntry ? this.parse(path.join(dirPath, initEntry.name), path.join(relativePath, initEntry.name)) : undefined;
+            const tags = [...inheritedTags, ...(initModel?.testTags ?? [])];
+
+            for (const entry of entries) {
+                const fullPath = path.join(dirPath, entry.name);
+                const itemRelativePath = path.join(relativePath, entry.name);
+
+                if (this.isExcluded(itemRelativePath, entry.isDirectory())) {
+                    continue;
+                }
+
+                if (entry.isDirectory()) {
+                    const children = this.scanDirectory(fullPath, itemRelativePath, tags);
+                    if (children.length > 0) {
+                        const childInit = this.findInitModel(itemRelativePath);
+                        items.push({
+                            name: entry.name,
+                            path: itemRelativePath,
+                            type: 'module',
+                            documentation: childInit?.documentation || undefined,
+                            children
+                        });
+                    }
+                } else if (this.isSuiteFile(entry.name) && this.isIncluded(itemRelativePath)) {
+                    const model = this.parse(fullPath, itemRelativePath);
+                    if (!model || !model.hasTestSection) {
+                        continue;
+                    }
+
+                    items.push({
+                        name: entry.name.replace(/\.[^.]+$/, ''),
+                        path: itemRelativePath,
+                        type: 'suite',
+                        documentation: model.documentation || undefined,
+                        children: model.tests.length > 0 ? model.tests.map(tc => ({
+                            name: tc.name,
+                            path: itemRelativePath,
+                            type: 'test' as const,
+                            testName: tc.name,
+                            line: tc.line,
+                            endLine: tc.endLine,
+                            tags: [...new Set([...tags, ...tc.effectiveTags])],
+                            documentation: tc.documentation || undefined,
+                            template: tc.template
+                        })) : undefined
+                    });
+                }
+            }
+        } catch (error) {
+            console.error('Error scanning directory:', error);
+        }
+
+        return items;
+    }
+
+    private isInitFile(fileName: string): boolean {
+        const ext = path.extname(fileName).toLowerCase();
+        return fileName.toLowerCase().startsWith('__init__.') && SUITE_EXTENSIONS.includes(ext);
+    }
+
+    private isSuiteFile(fileName: string): boolean {
+        return SUITE_EXTENSIONS.includes(path.extname(fileName).toLowerCase()) && !this.isInitFile(fileName);
+    }
+
+    private findInitModel(relativeDir: string): RobotSuiteModel | undefined {
+        for (const [relativePath, model] of this.models) {
+            if (model.isInit && path.dirname(relativePath) === relativeDir) {
+                return model;
+            }
+        }
+        return undefined;
+    }
+
+    private parse(fullPath: string, relativePath: string): RobotSuiteModel | undefined {
+        try {
+            const model = this.reusable.get(relativePath) ?? parseRobotFile(fullPath);
+            this.models.set(relativePath, model);
+            return model;
+        } catch (error) {
+            console.error('Error parsing robot file:', error);
+            return undefined;
+        }
+    }
+}
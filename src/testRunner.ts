@@ -1,5 +1,15 @@
 import * as vscode from 'vscode';
 import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { RobotResults, parseOutputXml, findLatestOutputXml } from './outputParser';
+import { parseTagPatterns } from './tagMatcher';
+import { suiteNameFromPath } from './robotParser';
+import { getDiscoverySettings } from './testDiscovery';
+import { ProgressListener, RunProgress, RunProgressTracker, prepareProgressListener } from './runProgress';
+import { DockerImageManager } from './dockerImages';
+import { DEBUG_EXTENSION_ID, DEBUG_SESSION_MARKER, RobotInvocation, createDebugConfiguration, isDebugAdapterInstalled, toRobotInvocation } from './debugConfiguration';
+import { CONTAINER_LABEL, DockerEngineClient, defaultDockerSocket } from './dockerEngine';
 
 export interface TestSelection {
     type: 'test' | 'suite' | 'module';
@@ -34,6 +44,8 @@ export interface TestConfig {
     logLevel: string;
     reportTitle: string;
     customVariables: string;
+    includeTags: string;  // --include tag expressions, one per line
+    excludeTags: string;  // --exclude tag expressions, one per line
 
     // Docker-only options
     maximizeBrowser: boolean;
@@ -45,6 +57,18 @@ export interface TestConfig {
     // Local-only options
     installDependencies: boolean;
     checkDeps: boolean;
+
+    // Parallel execution via pabot
+    parallel: boolean;
+    parallelProcesses: number;
+    testLevelSplit: boolean;
+    orderingFile: string;
+
+    // Workspace-relative output.xml whose failed tests should be rerun ('' = normal run)
+    rerunFailed: string;
+
+    // Robot --debugfile written by debug runs ('' = none)
+    debugFile: string;
 }
 
 export const defaultConfig: TestConfig = {
@@ -70,31 +94,182 @@ export const defaultConfig: TestConfig = {
     logLevel: 'TRACE',
     reportTitle: 'Unified Automation Regression Testing Report',
     customVariables: '',
+    includeTags: '',
+    excludeTags: '',
     maximizeBrowser: false,
     autoCloseBrowser: true,
     keepVncOpen: false,
     fullWidthViewport: false,
     imageName: 'robot-framework-custom:latest',
     installDependencies: false,
-    checkDeps: false
+    checkDeps: false,
+    parallel: false,
+    parallelProcesses: 4,
+    testLevelSplit: false,
+    orderingFile: '',
+    rerunFailed: '',
+    debugFile: ''
 };
 
+export interface RunResult {
+    runId: number;          // As returned by TestRunner.run
+    workspaceRoot: string;  // Folder the run was executed in
+    mode: 'docker' | 'local';
+    config: TestConfig;
+    command: string;  // Display rendering of the command, see formatCommand
+    exitCode: number | null;
+    startTime: number;
+    endTime: number;
+    results?: RobotResults;  // Parsed output.xml, when one was produced
+}
+
+/**
+ * A run waiting for the current one to finish, with the configuration it was requested with
+ */
+export interface QueuedRun {
+    runId: number;
+    mode: 'docker' | 'local';
+    config: TestConfig;
+    label: string;      // What the run selects, for display
+    queuedAt: number;
+}
+
+/**
+ * Short description of what a configuration runs
+ */
+export function describeRun(config: TestConfig): string {
+    if (config.rerunFailed) {
+        return 'Rerun failed tests';
+    }
+    if (config.customTestPath.trim()) {
+        return config.customTestPath.trim();
+    }
+    const names = [...config.testCaseNames, ...config.selections.map(sel => sel.name)];
+    if (names.length === 0) {
+        return 'All tests';
+    }
+    return names.length > 2 ? `${names.slice(0, 2).join(', ')} and ${names.length - 2} more` : names.join(', ');
+}
+
+/**
+ * A Docker run whose container is starting, with the host port of its noVNC web client
+ */
+export interface DockerRunStart {
+    workspaceRoot: string;
+    vncPort: number;
+    config: TestConfig;
+}
+
+/**
+ * A script invocation as an argument vector, spawned without a shell
+ */
+export interface RunCommand {
+    executable: string;
+    args: string[];
+}
+
+/**
+ * Render a command for display, quoted so it can be pasted into a POSIX shell
+ */
+export function formatCommand(command: RunCommand): string {
+    const quote = (arg: string) => /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+    return [command.executable, ...command.args].map(quote).join(' ');
+}
+
+// Where Engine API runs mount the workspace folder and write their results inside the container
+const CONTAINER_WORKSPACE = '/workspace';
+const CONTAINER_OUTPUT_DIR = '/tmp/rf-results';
+
+/**
+ * A container started through the Docker Engine API; `id` is set once it has been created
+ */
+interface ContainerRun {
+    engine: DockerEngineClient;
+    id?: string;
+    stopped: boolean;
+}
+
 export class TestRunner {
     private outputChannel: vscode.OutputChannel;
     private workspaceRoot: string;
     private currentProcess: cp.ChildProcess | null = null;
+    private container?: ContainerRun;
+    private debugSession?: vscode.DebugSession;
     private _isRunning: boolean = false;
     private onStatusChange?: (running: boolean) => void;
+    private readonly _onDidFinishRun = new vscode.EventEmitter<RunResult>();
+    private readonly _onDidProgress = new vscode.EventEmitter<RunProgress>();
+    private readonly _onDidStartDockerRun = new vscode.EventEmitter<DockerRunStart>();
+    private progressTracker?: RunProgressTracker;
+    private lastRun?: RunResult;
+    private runCounter = 0;
+    // Run being started, executed or finished; later runs are queued until it is cleared
+    private currentRunId?: number;
+    private stopRequested = false;
+    // Whether the options left out of Robot invocations were pointed out this session
+    private warnedSkippedOptions = false;
+    private _queue: QueuedRun[] = [];
+    private readonly _onDidChangeQueue = new vscode.EventEmitter<void>();
+    private readonly _onDidDropRun = new vscode.EventEmitter<number>();
 
-    constructor(workspaceRoot: string) {
+    /**
+     * Fired when a started run has finished, whether it passed, failed or was stopped
+     */
+    readonly onDidFinishRun = this._onDidFinishRun.event;
+
+    /**
+     * Fired while a run is executing, as the progress listener reports suites, tests and keywords
+     */
+    readonly onDidProgress = this._onDidProgress.event;
+
+    /**
+     * Fired when the container of a Docker run starts, so its browser can be watched over VNC
+     */
+    readonly onDidStartDockerRun = this._onDidStartDockerRun.event;
+
+    /**
+     * Fired when runs are queued, reordered, removed or started from the queue
+     */
+    readonly onDidChangeQueue = this._onDidChangeQueue.event;
+
+    /**
+     * @param label Appended to the output channel name to tell workspace folders apart
+     * @param images Used to check that the image of a Docker run exists
+     */
+    constructor(workspaceRoot: string, label?: string, private readonly images?: DockerImageManager) {
         this.workspaceRoot = workspaceRoot;
-        this.outputChannel = vscode.window.createOutputChannel('RF Test Runner');
+        this.outputChannel = vscode.window.createOutputChannel(label ? `RF Test Runner (${label})` : 'RF Test Runner');
+    }
+
+    get root(): string {
+        return this.workspaceRoot;
     }
 
     get isRunning(): boolean {
         return this._isRunning;
     }
 
+    /**
+     * Runs waiting for the current one, in the order they will start
+     */
+    get queue(): readonly QueuedRun[] {
+        return this._queue;
+    }
+
+    /**
+     * Progress of the current run, when the progress listener is attached
+     */
+    get progress(): RunProgress | undefined {
+        return this._isRunning ? this.progressTracker?.progress : undefined;
+    }
+
+    /**
+     * True when the previous run produced an output.xml with failed tests
+     */
+    get canRerunFailed(): boolean {
+        return !!this.lastRun?.results && this.lastRun.results.failed > 0;
+    }
+
     setOnStatusChange(callback: (running: boolean) => void) {
         this.onStatusChange = callback;
     }
@@ -104,35 +279,39 @@ export class TestRunner {
     }
 
     /**
-     * Determines the test path based on selections
+     * Determines the test paths based on selections
      */
-    private getTestPath(config: TestConfig): string {
+    private getTestPaths(config: TestConfig): string[] {
         // If custom path is provided, use it directly
         if (config.customTestPath.trim()) {
-            return config.customTestPath.trim();
+            return [config.customTestPath.trim()];
         }
 
-        // If no selections, run all tests
-        if (config.selections.length === 0) {
-            return 'Tests';
-        }
-
-        // Collect unique paths from selections
+        // Collect unique paths from selections. Individual tests contribute
+        // their suite file, so several tests of one suite share a single path.
         const paths: string[] = [];
         for (const sel of config.selections) {
-            if (sel.type === 'suite' || sel.type === 'module') {
-                if (!paths.includes(sel.path)) {
-                    paths.push(sel.path);
-                }
-            } else if (sel.type === 'test') {
-                // For individual tests, we need the suite path
-                if (!paths.includes(sel.path)) {
-                    paths.push(sel.path);
-                }
+            if (!paths.includes(sel.path)) {
+                paths.push(sel.path);
             }
         }
 
-        return paths.length > 0 ? paths.join(' ') : 'Tests';
+        // If no selections, run every configured test root
+        return paths.length > 0 ? paths : getDiscoverySettings(vscode.Uri.file(this.workspaceRoot)).testRoots;
+    }
+
+    /**
+     * Build --test patterns for individually selected tests, qualified by their suite
+     * so identically named tests in other suites are not selected. With several paths
+     * Robot adds a combined top-level suite, hence the leading wildcard.
+     */
+    private getQualifiedTestNames(config: TestConfig, pathCount: number): string[] {
+        return config.selections
+            .filter(sel => sel.type === 'test' && sel.testName)
+            .map(sel => {
+                const qualified = `${suiteNameFromPath(sel.path)}.${sel.testName}`;
+                return pathCount > 1 ? `*.${qualified}` : qualified;
+            });
     }
 
     /**
@@ -143,127 +322,748 @@ export class TestRunner {
     }
 
     /**
-     * Build the complete shell command as a single string
+     * Build the script invocation as an argument vector. It is spawned without a shell,
+     * so names, titles and variables reach the script exactly as entered.
      */
-    buildCommand(mode: 'docker' | 'local', config: TestConfig): string {
-        const parts: string[] = [];
-        const scriptName = mode === 'docker' ? './run_tests.sh' : './run_tests_local.sh';
+    buildCommand(mode: 'docker' | 'local', config: TestConfig, progressListener?: ProgressListener): RunCommand {
+        const args: string[] = [];
+        const executable = mode === 'docker' ? './run_tests.sh' : './run_tests_local.sh';
 
         // Script-level flags (no values)
         if (config.headless) {
-            parts.push('--headless');
+            args.push('--headless');
         }
 
         if (mode === 'docker') {
-            if (config.maximizeBrowser) { parts.push('--maximize-browser'); }
-            if (config.fullWidthViewport) { parts.push('--full-width-viewport'); }
-            if (config.keepVncOpen) { parts.push('--keep-vnc-open'); }
+            if (config.maximizeBrowser) { args.push('--maximize-browser'); }
+            if (config.fullWidthViewport) { args.push('--full-width-viewport'); }
+            if (config.keepVncOpen) { args.push('--keep-vnc-open'); }
         }
 
         if (mode === 'local') {
-            if (config.installDependencies) { parts.push('--install-dependencies'); }
-            if (config.checkDeps) { parts.push('--check-deps'); }
+            if (config.installDependencies) { args.push('--install-dependencies'); }
+            if (config.checkDeps) { args.push('--check-deps'); }
+        }
+
+        // Parallel execution - the script runs pabot instead of robot and passes these through
+        if (config.parallel) {
+            args.push('--parallel');
+            args.push('--processes', String(config.parallelProcesses));
+            if (config.testLevelSplit) { args.push('--testlevelsplit'); }
+            if (config.orderingFile.trim()) { args.push('--ordering', config.orderingFile.trim()); }
         }
 
         // Options with values - use Robot Framework boolean format (True/False)
-        parts.push(`--captcha-solver ${this.toBoolStr(config.captchaSolver)}`);
-        parts.push(`--window-full ${this.toBoolStr(config.windowFull)}`);
-        parts.push(`--window-maximized ${this.toBoolStr(config.windowMaximized)}`);
-        parts.push(`--run-offline ${this.toBoolStr(config.runOffline)}`);
-        parts.push(`--dev-tools ${this.toBoolStr(config.devTools)}`);
-        parts.push(`--chrome-security-sandbox ${this.toBoolStr(config.chromeSecuritySandbox)}`);
-        parts.push(`--playwright-tracing ${this.toBoolStr(config.playwrightTracing)}`);
-        parts.push(`--environment ${config.developmentEnvironment}`);
-        parts.push(`--execution-env ${config.executionEnv}`);
-        parts.push(`--omit-content ${this.toBoolStr(config.omitContent)}`);
-        parts.push(`--record-video ${this.toBoolStr(config.recordVideo)}`);
-        parts.push(`--enable-har ${this.toBoolStr(config.enableHar)}`);
-        parts.push(`--window-height ${config.windowHeight}`);
-        parts.push(`--window-width ${config.windowWidth}`);
-        parts.push(`--context-type ${config.contextType}`);
-        parts.push(`--log-level ${config.logLevel}`);
-        parts.push(`--report-title "${config.reportTitle}"`);
+        args.push('--captcha-solver', this.toBoolStr(config.captchaSolver));
+        args.push('--window-full', this.toBoolStr(config.windowFull));
+        args.push('--window-maximized', this.toBoolStr(config.windowMaximized));
+        args.push('--run-offline', this.toBoolStr(config.runOffline));
+        args.push('--dev-tools', this.toBoolStr(config.devTools));
+        args.push('--chrome-security-sandbox', this.toBoolStr(config.chromeSecuritySandbox));
+        args.push('--playwright-tracing', this.toBoolStr(config.playwrightTracing));
+        args.push('--environment', config.developmentEnvironment);
+        args.push('--execution-env', config.executionEnv);
+        args.push('--omit-content', this.toBoolStr(config.omitContent));
+        args.push('--record-video', this.toBoolStr(config.recordVideo));
+        args.push('--enable-har', this.toBoolStr(config.enableHar));
+        args.push('--window-height', String(config.windowHeight));
+        args.push('--window-width', String(config.windowWidth));
+        args.push('--context-type', config.contextType);
+        args.push('--log-level', config.logLevel);
+        args.push('--report-title', config.reportTitle);
 
         if (mode === 'docker') {
-            parts.push(`--auto-close-browser ${this.toBoolStr(config.autoCloseBrowser)}`);
+            args.push('--auto-close-browser', this.toBoolStr(config.autoCloseBrowser));
+            if (config.imageName.trim()) {
+                args.push('--image', config.imageName.trim());
+            }
         }
 
         // Custom variables (passed to script which passes to robot)
         if (config.customVariables.trim()) {
             const vars = config.customVariables.split('\n').filter(v => v.trim());
             for (const v of vars) {
-                parts.push(`-v "${v.trim()}"`);
+                args.push('-v', v.trim());
             }
         }
 
+        // Tag expressions (AND/OR/NOT) selecting tests by their tags
+        for (const pattern of parseTagPatterns(config.includeTags)) {
+            args.push('--include', pattern);
+        }
+        for (const pattern of parseTagPatterns(config.excludeTags)) {
+            args.push('--exclude', pattern);
+        }
+
+        // Rerun only the tests that failed in a previous output.xml
+        if (config.rerunFailed) {
+            args.push('--rerunfailed', config.rerunFailed);
+        }
+
+        // Keyword-level trace of debug runs
+        if (config.debugFile) {
+            args.push('--debugfile', config.debugFile);
+        }
+
+        // Live progress events, written to a file inside the (mounted) workspace
+        if (progressListener) {
+            args.push('--listener', `${progressListener.listener}:${progressListener.events}`);
+        }
+
         // Individual test case names - use --test option to filter specific tests
-        if (config.testCaseNames.length > 0) {
-            for (const testName of config.testCaseNames) {
-                parts.push(`--test "${testName}"`);
+        for (const testName of config.testCaseNames) {
+            args.push('--test', testName);
+        }
+
+        // Tests selected individually from the tree, qualified by suite
+        const testPaths = this.getTestPaths(config);
+        for (const testName of this.getQualifiedTestNames(config, testPaths.length)) {
+            args.push('--test', testName);
+        }
+
+        // Add test paths at the end
+        args.push(...testPaths);
+
+        return { executable, args };
+    }
+
+    /**
+     * Create an output writer that prefixes pabot status lines with a worker label.
+     * pabot prints lines like "2024-01-01 10:00:00.000000 [PID:123] [2] [ID:5] PASSED Suite in 3.0 seconds",
+     * where the second bracket is the worker (pool) index.
+     */
+    private createPabotWriter(): { write: (text: string) => void; flush: () => void } {
+        let pending = '';
+        const writeLine = (line: string) => {
+            const match = line.match(/^\S+ \S+ \[PID:\d+\] \[(\d+)\] \[ID:\d+\] (.*)$/);
+            this.outputChannel.appendLine(match ? `[worker ${parseInt(match[1], 10) + 1}] ${match[2]}` : line);
+        };
+
+        return {
+            write: (text: string) => {
+                const lines = (pending + text).split('\n');
+                pending = lines.pop() ?? '';
+                lines.forEach(writeLine);
+            },
+            flush: () => {
+                if (pending) {
+                    writeLine(pending);
+                    pending = '';
+                }
+            }
+        };
+    }
+
+    /**
+     * Locate and parse the output.xml written by the run that started at `startTime`
+     */
+    private loadResults(startTime: number): RobotResults | undefined {
+        const outputPath = findLatestOutputXml(this.workspaceRoot, startTime);
+        if (!outputPath) {
+            this.outputChannel.appendLine('No output.xml was produced by this run');
+            return undefined;
+        }
+
+        try {
+            return parseOutputXml(outputPath);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            this.outputChannel.appendLine(`Could not parse ${outputPath}: ${message}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Write a per-test summary of the parsed results to the output channel
+     */
+    private logResults(results: RobotResults) {
+        this.outputChannel.appendLine(`Results: ${results.outputPath}`);
+        this.outputChannel.appendLine('');
+        for (const test of results.tests) {
+            const seconds = (test.elapsedMs / 1000).toFixed(1);
+            this.outputChannel.appendLine(`${test.status.padEnd(4)}  ${test.longName} (${seconds}s)`);
+            if (test.status === 'FAIL' && test.message) {
+                this.outputChannel.appendLine(`      ${test.message}`);
+            }
+        }
+        this.outputChannel.appendLine('');
+        this.outputChannel.appendLine(
+            `${results.tests.length} tests: ${results.passed} passed, ${results.failed} failed, ${results.skipped} skipped`
+        );
+    }
+
+    /**
+     * The rebot invocation merging a --rerunfailed run into its base output. Paths are relative
+     * to the workspace folder, so the same arguments work on the host and in a container with
+     * the folder mounted at CONTAINER_WORKSPACE. Undefined when an output lies outside the folder.
+     */
+    buildMergeCommand(config: TestConfig, rerunOutput: string): RunCommand | undefined {
+        const relative = (file: string) => {
+            const relativePath = path.relative(this.workspaceRoot, path.resolve(this.workspaceRoot, file));
+            return relativePath.startsWith('..') || path.isAbsolute(relativePath)
+                ? undefined
+                : relativePath.split(path.sep).join('/');
+        };
+        const baseOutput = relative(config.rerunFailed);
+        const rerun = relative(rerunOutput);
+        if (baseOutput === undefined || rerun === undefined) {
+            return undefined;
+        }
+        return {
+            executable: 'rebot',
+            args: [
+                '--merge',
+                '--outputdir', path.posix.dirname(rerun),
+                '--output', 'merged-output.xml',
+                '--log', 'merged-log.html',
+                '--report', 'merged-report.html',
+                baseOutput,
+                rerun
+            ]
+        };
+    }
+
+    /**
+     * Run rebot on the host, or through the docker CLI. Resolves to false when rebot (or docker) is missing.
+     */
+    private execRebot(command: RunCommand, inDocker: boolean): Promise<boolean> {
+        return new Promise(resolve => {
+            // rebot exits with the number of failed tests, so the caller checks for the merged output instead
+            cp.execFile(command.executable, command.args, { cwd: this.workspaceRoot }, error => {
+                const code = (error as { code?: string | number } | null)?.code;
+                // docker run exits with 127 when the image has no such executable
+                resolve(!(code === 'ENOENT' || (inDocker && code === 127)));
+            });
+        });
+    }
+
+    /**
+     * Run rebot in a container of the run's image. Resolves to false when the image has no rebot.
+     */
+    private async rebotInContainer(engine: DockerEngineClient, image: string, command: RunCommand): Promise<boolean> {
+        const id = await engine.createContainer({
+            image,
+            cmd: [command.executable, ...command.args],
+            workingDir: CONTAINER_WORKSPACE,
+            binds: [`${this.workspaceRoot}:${CONTAINER_WORKSPACE}`],
+            labels: { [CONTAINER_LABEL]: this.workspaceRoot }
+        });
+        try {
+            await engine.startContainer(id);
+            await engine.waitContainer(id);
+            return true;
+        } catch (error) {
+            if (error instanceof Error && /executable file not found/i.test(error.message)) {
+                return false;
+            }
+            throw error;
+        } finally {
+            await engine.removeContainer(id).catch(() => undefined);
+        }
+    }
+
+    /**
+     * Merge the output of a --rerunfailed run into the original output with rebot, in the
+     * environment the run used: on the host for local runs, in the run's image for Docker runs
+     */
+    private async mergeRerunResults(mode: 'docker' | 'local', config: TestConfig, rerun: RobotResults): Promise<RobotResults | undefined> {
+        const outputDir = path.dirname(rerun.outputPath);
+        const merged = path.join(outputDir, 'merged-output.xml');
+        const rebot = this.buildMergeCommand(config, rerun.outputPath);
+        const skip = (reason: string) => {
+            this.outputChannel.appendLine(`Rerun results were not merged: ${reason}`);
+            vscode.window.showInformationMessage(`Rerun results were not merged into the original report: ${reason}`);
+            return undefined;
+        };
+        if (!rebot) {
+            return skip('the outputs are outside the workspace folder');
+        }
+
+        const engine = mode === 'docker' ? this.createEngine() : undefined;
+        const image = config.imageName.trim() || defaultConfig.imageName;
+        const command = mode === 'docker' && !engine
+            ? {
+                executable: 'docker',
+                args: ['run', '--rm', '-v', `${this.workspaceRoot}:${CONTAINER_WORKSPACE}`, '-w', CONTAINER_WORKSPACE, image, rebot.executable, ...rebot.args]
+            }
+            : rebot;
+
+        this.outputChannel.appendLine('');
+        this.outputChannel.appendLine(`Merging rerun results: ${formatCommand(command)}${engine ? ` (in ${image})` : ''}`);
+
+        try {
+            // Left over from an earlier rerun, it would pass for this merge's output
+            fs.rmSync(merged, { force: true });
+            const found = engine
+                ? await this.rebotInContainer(engine, image, rebot)
+                : await this.execRebot(command, mode === 'docker');
+            if (!found) {
+                return skip(mode === 'docker' ? `rebot (or docker) is not available to run it in ${image}` : 'rebot is not installed on this machine');
+            }
+            if (!fs.existsSync(merged)) {
+                throw new Error('rebot did not produce merged-output.xml');
+            }
+            this.outputChannel.appendLine(`Merged report: ${path.join(outputDir, 'merged-report.html')}`);
+            return parseOutputXml(merged);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            this.outputChannel.appendLine(`Could not merge rerun results: ${message}`);
+            vscode.window.showWarningMessage(`Could not merge rerun results: ${message}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Rerun the failed tests of the previous run with the same mode and configuration
+     */
+    async rerunFailed(): Promise<number | undefined> {
+        const lastRun = this.lastRun;
+        if (!lastRun?.results || lastRun.results.failed === 0) {
+            vscode.window.showInformationMessage('There are no failed tests to rerun');
+            return undefined;
+        }
+
+        // The rerun writes a new output.xml over the old one, so keep a copy to rerun from and merge into
+        const original = lastRun.results.outputPath;
+        const baseOutput = path.join(path.dirname(original), 'rerun-base-output.xml');
+        try {
+            fs.copyFileSync(original, baseOutput);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to prepare rerun: ${message}`);
+            return undefined;
+        }
+
+        return this.run(lastRun.mode, {
+            ...lastRun.config,
+            rerunFailed: path.relative(this.workspaceRoot, baseOutput)
+        });
+    }
+
+    /**
+     * Install the progress listener in the workspace unless live progress is turned off
+     */
+    private prepareProgress(): ProgressListener | undefined {
+        const settings = vscode.workspace.getConfiguration('rfTestRunner', vscode.Uri.file(this.workspaceRoot));
+        if (!settings.get<boolean>('liveProgress', true)) {
+            return undefined;
+        }
+
+        try {
+            return prepareProgressListener(this.workspaceRoot);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            this.outputChannel.appendLine(`Live progress is unavailable: ${message}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Warn before a Docker run when its image is missing locally. Resolves to true when the run should go ahead.
+     */
+    private async confirmImage(image: string, engine?: DockerEngineClient): Promise<boolean> {
+        if (!this.images || !image) {
+            return true;
+        }
+        const exists = engine ? await engine.imageExists(image).catch(() => false) : await this.images.exists(image);
+        if (exists) {
+            return true;
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            `Docker image ${image} was not found locally (or Docker is not running)`,
+            'Build Image',
+            'Run Anyway'
+        );
+        if (choice === 'Build Image') {
+            this.images.build(image);
+        }
+        return choice === 'Run Anyway';
+    }
+
+    /**
+     * noVNC (websockify) port of the container, from rfTestRunner.vncPort
+     */
+    private get vncPort(): number {
+        return vscode.workspace.getConfiguration('rfTestRunner', vscode.Uri.file(this.workspaceRoot)).get<number>('vncPort', 6080);
+    }
+
+    /**
+     * Engine API client for Docker runs, when rfTestRunner.dockerExecution is 'engineApi'
+     */
+    private createEngine(): DockerEngineClient | undefined {
+        const settings = vscode.workspace.getConfiguration('rfTestRunner', vscode.Uri.file(this.workspaceRoot));
+        if (settings.get<string>('dockerExecution', 'script') !== 'engineApi') {
+            return undefined;
+        }
+        return new DockerEngineClient(settings.get<string>('dockerSocket', '') || defaultDockerSocket());
+    }
+
+    /**
+     * Script arguments translated for running Robot without the script, with the script
+     * options mapped to Robot variables by rfTestRunner.scriptOptionVariables
+     */
+    private robotInvocation(runCommand: RunCommand): RobotInvocation {
+        const settings = vscode.workspace.getConfiguration('rfTestRunner', vscode.Uri.file(this.workspaceRoot));
+        return toRobotInvocation(runCommand.args, settings.get<Record<string, string>>('scriptOptionVariables', {}));
+    }
+
+    /**
+     * Point out the script options Robot does not get, in the output channel and once per session as a warning
+     */
+    private reportSkippedOptions(invocation: RobotInvocation) {
+        if (invocation.skipped.length === 0) {
+            return;
+        }
+        const message = `Script options without a Robot variable in rfTestRunner.scriptOptionVariables are not passed to Robot: ${invocation.skipped.join(', ')}`;
+        this.outputChannel.appendLine(message);
+        if (!this.warnedSkippedOptions) {
+            this.warnedSkippedOptions = true;
+            vscode.window.showWarningMessage(message);
+        }
+    }
+
+    /**
+     * The robot (or pabot) command run inside the container in place of run_tests.sh.
+     * Options the script would interpret become Robot variables, as for debug sessions.
+     */
+    private buildContainerCommand(config: TestConfig, invocation: RobotInvocation): RunCommand {
+        const { args, variables, paths } = invocation;
+        const command: string[] = [];
+
+        if (config.parallel) {
+            command.push('--processes', String(config.parallelProcesses));
+            if (config.testLevelSplit) { command.push('--testlevelsplit'); }
+            if (config.orderingFile.trim()) { command.push('--ordering', config.orderingFile.trim()); }
+        }
+
+        command.push('--outputdir', CONTAINER_OUTPUT_DIR);
+        for (const [name, value] of Object.entries(variables)) {
+            command.push('--variable', `${name}:${value}`);
+        }
+        command.push(...args, ...paths);
+
+        return { executable: config.parallel ? 'pabot' : 'robot', args: command };
+    }
+
+    /**
+     * Run a command in a new container of the image, with the workspace folder mounted,
+     * streaming its output to `write`. The results are copied out once it has exited and
+     * the container is removed, also when the run fails or is stopped.
+     */
+    private async runContainer(
+        engine: DockerEngineClient,
+        image: string,
+        command: RunCommand,
+        write: (text: string) => void,
+        onStarted: (vncPort?: number) => void
+    ): Promise<number | null> {
+        const container: ContainerRun = { engine, stopped: false };
+        this.container = container;
+
+        try {
+            // Containers left behind by an earlier window of this folder, e.g. one closed mid-run
+            for (const id of await engine.listContainers(CONTAINER_LABEL, this.workspaceRoot)) {
+                this.outputChannel.appendLine(`Removing leftover container ${id.slice(0, 12)}`);
+                await engine.removeContainer(id);
             }
+
+            container.id = await engine.createContainer({
+                image,
+                cmd: [command.executable, ...command.args],
+                workingDir: CONTAINER_WORKSPACE,
+                binds: [`${this.workspaceRoot}:${CONTAINER_WORKSPACE}`],
+                env: ['FORCE_COLOR=1'],
+                labels: { [CONTAINER_LABEL]: this.workspaceRoot },
+                ports: [this.vncPort]
+            });
+            if (container.stopped) {
+                return null;
+            }
+
+            this.outputChannel.appendLine(`Started container ${container.id.slice(0, 12)}`);
+            this.outputChannel.appendLine('');
+            await engine.startContainer(container.id);
+            onStarted(await engine.publishedPort(container.id, this.vncPort).catch(() => undefined));
+
+            const logs = engine.followLogs(container.id, write).catch(error => {
+                this.outputChannel.appendLine(`Container output is unavailable: ${error.message}`);
+            });
+            const exitCode = await engine.waitContainer(container.id);
+            await logs;
+
+            await this.copyContainerResults(engine, container.id);
+            return exitCode;
+        } finally {
+            // A stopped run may still be cleaning up while the next one starts
+            if (this.container === container) {
+                this.container = undefined;
+            }
+            if (container.id) {
+                await engine.removeContainer(container.id).catch(error => {
+                    this.outputChannel.appendLine(`Could not remove container ${container.id?.slice(0, 12)}: ${error.message}`);
+                });
+            }
+        }
+    }
+
+    /**
+     * Copy the output directory of a finished container into rfTestRunner.dockerOutputDirectory
+     */
+    private async copyContainerResults(engine: DockerEngineClient, id: string) {
+        const settings = vscode.workspace.getConfiguration('rfTestRunner', vscode.Uri.file(this.workspaceRoot));
+        const target = path.resolve(this.workspaceRoot, settings.get<string>('dockerOutputDirectory', 'results') || 'results');
+
+        try {
+            fs.mkdirSync(target, { recursive: true });
+            const count = await engine.copyFromContainer(id, CONTAINER_OUTPUT_DIR, target);
+            this.outputChannel.appendLine(`Copied ${count} result files to ${target}`);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            this.outputChannel.appendLine(`No results were copied from the container: ${message}`);
         }
+    }
 
-        // Add test path at the end
-        const testPath = this.getTestPath(config);
-        parts.push(testPath);
+    /**
+     * Start a test run, or queue it while another run of the folder is in progress. Resolves
+     * to the ID its RunResult will carry, or undefined when the run could not be started.
+     */
+    async run(mode: 'docker' | 'local', config: TestConfig): Promise<number | undefined> {
+        const runId = ++this.runCounter;
+        if (this.currentRunId !== undefined) {
+            this.enqueue(runId, mode, config);
+            return runId;
+        }
+        return await this.start(runId, mode, config) ? runId : undefined;
+    }
 
-        return `${scriptName} ${parts.join(' ')}`;
+    private enqueue(runId: number, mode: 'docker' | 'local', config: TestConfig) {
+        // A snapshot: later changes to the form or profile do not affect the queued run
+        const snapshot: TestConfig = {
+            ...config,
+            selections: config.selections.map(sel => ({ ...sel })),
+            testCaseNames: [...config.testCaseNames]
+        };
+        this._queue.push({ runId, mode, config: snapshot, label: describeRun(snapshot), queuedAt: Date.now() });
+        this._onDidChangeQueue.fire();
+        vscode.window.showInformationMessage(`Run queued (${this._queue.length} waiting): ${describeRun(snapshot)}`);
+    }
+
+    /**
+     * Move a queued run up (negative offset) or down the queue
+     */
+    moveQueued(runId: number, offset: number) {
+        const index = this._queue.findIndex(item => item.runId === runId);
+        const target = Math.max(0, Math.min(this._queue.length - 1, index + offset));
+        if (index === -1 || target === index) {
+            return;
+        }
+        const [item] = this._queue.splice(index, 1);
+        this._queue.splice(target, 0, item);
+        this._onDidChangeQueue.fire();
     }
 
-    async run(mode: 'docker' | 'local', config: TestConfig): Promise<void> {
-        if (this._isRunning) {
-            vscode.window.showWarningMessage('A test is already running');
+    /**
+     * Remove queued runs, all of them without IDs. Their whenFinished promises resolve to undefined.
+     */
+    removeQueued(...runIds: number[]) {
+        const removed = runIds.length > 0 ? this._queue.filter(item => runIds.includes(item.runId)) : this._queue;
+        if (removed.length === 0) {
             return;
         }
+        this._queue = this._queue.filter(item => !removed.includes(item));
+        this._onDidChangeQueue.fire();
+        removed.forEach(item => this._onDidDropRun.fire(item.runId));
+    }
+
+    /**
+     * Resolves with the result of a run once it has finished, or undefined when it was removed from the queue
+     */
+    whenFinished(runId: number): Promise<RunResult | undefined> {
+        if (this.lastRun?.runId === runId) {
+            return Promise.resolve(this.lastRun);
+        }
+        if (runId !== this.currentRunId && !this._queue.some(item => item.runId === runId)) {
+            return Promise.resolve(undefined);
+        }
+
+        return new Promise(resolve => {
+            const listeners = [
+                this.onDidFinishRun(result => result.runId === runId && done(result)),
+                this._onDidDropRun.event(dropped => dropped === runId && done(undefined))
+            ];
+            const done = (result: RunResult | undefined) => {
+                listeners.forEach(listener => listener.dispose());
+                resolve(result);
+            };
+        });
+    }
+
+    /**
+     * Stop the current run if it is `runId`, or take it out of the queue
+     */
+    cancel(runId: number) {
+        if (this.currentRunId === runId) {
+            this.stop();
+        } else {
+            this.removeQueued(runId);
+        }
+    }
+
+    /**
+     * Start queued runs once the current run has finished. With rfTestRunner.queueStopOnFailure
+     * the queue is cleared instead when that run failed, unless it was stopped by the user.
+     */
+    private async startNext(previous?: RunResult) {
+        const settings = vscode.workspace.getConfiguration('rfTestRunner', vscode.Uri.file(this.workspaceRoot));
+        const failed = previous && previous.exitCode !== 0 && !this.stopRequested;
+        if (failed && this._queue.length > 0 && settings.get<boolean>('queueStopOnFailure', false)) {
+            const count = this._queue.length;
+            this.removeQueued();
+            vscode.window.showWarningMessage(`The run failed, so ${count} queued run${count === 1 ? ' was' : 's were'} removed`);
+            return;
+        }
+
+        const next = this.currentRunId === undefined ? this._queue.shift() : undefined;
+        if (next) {
+            this._onDidChangeQueue.fire();
+            if (!await this.start(next.runId, next.mode, next.config)) {
+                this._onDidDropRun.fire(next.runId);
+            }
+        }
+    }
+
+    /**
+     * Start a run now. Resolves to false when it could not be started, after moving on
+     * to the next queued run: runs requested while it was starting were queued behind it.
+     */
+    private async start(runId: number, mode: 'docker' | 'local', config: TestConfig): Promise<boolean> {
+        this.currentRunId = runId;
+        this.stopRequested = false;
+        const started = await this.launch(runId, mode, config);
+        if (!started) {
+            this.currentRunId = undefined;
+            this.startNext();
+        }
+        return started;
+    }
+
+    private async launch(runId: number, mode: 'docker' | 'local', config: TestConfig): Promise<boolean> {
+        const engine = mode === 'docker' ? this.createEngine() : undefined;
+        if (engine) {
+            try {
+                await engine.ping();
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                vscode.window.showErrorMessage(message);
+                return false;
+            }
+        }
 
-        const command = this.buildCommand(mode, config);
+        const image = config.imageName.trim() || defaultConfig.imageName;
+        if (mode === 'docker' && !await this.confirmImage(config.imageName.trim(), engine)) {
+            return false;
+        }
 
         this.outputChannel.show();
         this.outputChannel.clear();
-        this.outputChannel.appendLine(`Starting ${mode} test execution...`);
+
+        const progressListener = this.prepareProgress();
+        const runCommand = this.buildCommand(mode, config, progressListener);
+        const invocation = engine ? this.robotInvocation(runCommand) : undefined;
+        const containerCommand = invocation ? this.buildContainerCommand(config, invocation) : undefined;
+        // Engine API runs are shown as the equivalent docker run command
+        const command = containerCommand
+            ? formatCommand({
+                executable: 'docker',
+                args: ['run', '--rm', '-v', `${this.workspaceRoot}:${CONTAINER_WORKSPACE}`, '-w', CONTAINER_WORKSPACE, image, containerCommand.executable, ...containerCommand.args]
+            })
+            : formatCommand(runCommand);
+
+        this.outputChannel.appendLine(`Starting ${mode} test execution${engine ? ` through the Docker Engine API (${engine.socketPath})` : ''}...`);
         this.outputChannel.appendLine(`Working directory: ${this.workspaceRoot}`);
         this.outputChannel.appendLine(`Command: ${command}`);
+        if (invocation) {
+            this.reportSkippedOptions(invocation);
+        }
         this.outputChannel.appendLine('');
         this.outputChannel.appendLine('='.repeat(70));
         this.outputChannel.appendLine('');
 
+        const startTime = Date.now();
+        let finished = false;
+        const finish = (exitCode: number | null, results?: RobotResults) => {
+            // 'error' and 'close' can both fire for the same process
+            if (finished) {
+                return;
+            }
+            finished = true;
+            this.progressTracker?.dispose();
+            this.progressTracker = undefined;
+            this.lastRun = { runId, workspaceRoot: this.workspaceRoot, mode, config, command, exitCode, startTime, endTime: Date.now(), results };
+            this._onDidFinishRun.fire(this.lastRun);
+            this.currentRunId = undefined;
+            this.startNext(this.lastRun);
+        };
+
         try {
             this._isRunning = true;
+            if (this.onStatusChange) {
+                this.onStatusChange(true);
+            }
 
-            // Use shell execution directly for proper argument handling
-            this.currentProcess = cp.spawn(command, [], {
-                cwd: this.workspaceRoot,
-                shell: '/bin/bash',
-                env: { ...process.env, FORCE_COLOR: '1' }
-            });
-
-            this.currentProcess.stdout?.on('data', (data) => {
-                this.outputChannel.append(data.toString());
-            });
+            if (progressListener) {
+                this.progressTracker = new RunProgressTracker(path.join(this.workspaceRoot, progressListener.events), startTime);
+                this.progressTracker.onDidUpdate(progress => this._onDidProgress.fire(progress));
+            }
 
-            this.currentProcess.stderr?.on('data', (data) => {
-                this.outputChannel.append(data.toString());
-            });
+            // pabot interleaves its workers on one stream, so label each line with its worker
+            const pabotWriter = config.parallel ? this.createPabotWriter() : undefined;
+            const write = (text: string) => pabotWriter ? pabotWriter.write(text) : this.outputChannel.append(text);
 
-            this.currentProcess.on('close', (code) => {
+            const onExit = async (code: number | null) => {
                 this._isRunning = false;
-                this.outputChannel.appendLine('');
-                this.outputChannel.appendLine('='.repeat(70));
-                this.outputChannel.appendLine(`Test execution finished with exit code: ${code}`);
-
-                if (code === 0) {
-                    vscode.window.showInformationMessage('Tests completed successfully!');
-                } else {
-                    vscode.window.showWarningMessage(`Tests finished with exit code ${code}`);
-                }
+                let results: RobotResults | undefined;
+                try {
+                    pabotWriter?.flush();
+                    this.outputChannel.appendLine('');
+                    this.outputChannel.appendLine('='.repeat(70));
+                    this.outputChannel.appendLine(`Test execution finished with exit code: ${code}`);
 
-                // Notify the webview that tests have stopped running
-                if (this.onStatusChange) {
-                    this.onStatusChange(false);
+                    results = this.loadResults(startTime);
+                    if (results && config.rerunFailed) {
+                        results = await this.mergeRerunResults(mode, config, results) ?? results;
+                    }
+                    if (results) {
+                        this.logResults(results);
+                    }
+
+                    const summary = results
+                        ? `${results.passed} passed, ${results.failed} failed, ${results.skipped} skipped`
+                        : `exit code ${code}`;
+                    if (code === 0) {
+                        vscode.window.showInformationMessage(`Tests completed successfully! (${summary})`);
+                    } else {
+                        vscode.window.showWarningMessage(`Tests finished with ${summary}`);
+                    }
+                } finally {
+                    // Whatever failed above, the run is over: release the runner and the queue
+                    try {
+                        this.onStatusChange?.(false);
+                    } finally {
+                        finish(code, results);
+                    }
                 }
-            });
+            };
+
+            // finish() has already run by then, so only report what failed while wrapping up
+            const onExitError = (error: unknown) => {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                this.outputChannel.appendLine(`Could not process the results of the run: ${message}`);
+                vscode.window.showErrorMessage(`Could not process the results of the run: ${message}`);
+            };
 
-            this.currentProcess.on('error', (err) => {
+            const onError = (err: Error) => {
                 this._isRunning = false;
                 this.outputChannel.appendLine(`Error: ${err.message}`);
                 vscode.window.showErrorMessage(`Test execution failed: ${err.message}`);
@@ -272,16 +1072,170 @@ export class TestRunner {
                 if (this.onStatusChange) {
                     this.onStatusChange(false);
                 }
+
+                finish(null);
+            };
+
+            const onStarted = (vncPort?: number) => {
+                if (vncPort) {
+                    this._onDidStartDockerRun.fire({ workspaceRoot: this.workspaceRoot, vncPort, config });
+                }
+            };
+
+            if (engine && containerCommand) {
+                this.runContainer(engine, image, containerCommand, write, onStarted).then(onExit, onError).catch(onExitError);
+                return true;
+            }
+
+            // No shell: every argument reaches the script verbatim
+            this.currentProcess = cp.spawn(runCommand.executable, runCommand.args, {
+                cwd: this.workspaceRoot,
+                env: { ...process.env, FORCE_COLOR: '1' }
+            });
+
+            this.currentProcess.stdout?.on('data', (data) => {
+                write(data.toString());
             });
 
+            this.currentProcess.stderr?.on('data', (data) => {
+                write(data.toString());
+            });
+
+            this.currentProcess.on('close', code => onExit(code).catch(onExitError));
+            this.currentProcess.on('error', onError);
+
+            // run_tests.sh publishes the VNC port on the same host port
+            if (mode === 'docker') {
+                onStarted(this.vncPort);
+            }
+
+            return true;
         } catch (error) {
             this._isRunning = false;
             const message = error instanceof Error ? error.message : 'Unknown error';
             vscode.window.showErrorMessage(`Failed to start tests: ${message}`);
+            return false;
         }
     }
 
+    /**
+     * Debug a run under the Robot debug adapter. Options come from the same local
+     * command a normal run would execute; pabot is not used under the debugger.
+     */
+    async debug(config: TestConfig): Promise<number | undefined> {
+        if (this.currentRunId !== undefined) {
+            vscode.window.showWarningMessage('A test is already running; debug sessions are not queued');
+            return undefined;
+        }
+
+        if (!isDebugAdapterInstalled()) {
+            const choice = await vscode.window.showErrorMessage(
+                'Debugging Robot Framework tests needs the RobotCode extension',
+                'Show Extension'
+            );
+            if (choice) {
+                vscode.commands.executeCommand('workbench.extensions.search', DEBUG_EXTENSION_ID);
+            }
+            return undefined;
+        }
+
+        const runId = ++this.runCounter;
+        this.currentRunId = runId;
+        this.stopRequested = false;
+
+        const debugConfig: TestConfig = { ...config, parallel: false };
+        const runCommand = this.buildCommand('local', debugConfig);
+        const command = formatCommand(runCommand);
+        const target = config.testCaseNames[0] ?? config.selections.find(sel => sel.type === 'test')?.testName ?? 'tests';
+        const invocation = this.robotInvocation(runCommand);
+        const launch = createDebugConfiguration(invocation, this.workspaceRoot, `Debug ${target}`);
+
+        this.outputChannel.show();
+        this.outputChannel.clear();
+        this.outputChannel.appendLine('Starting debug session...');
+        this.outputChannel.appendLine(`Working directory: ${this.workspaceRoot}`);
+        this.outputChannel.appendLine(`Command: ${command}`);
+        this.outputChannel.appendLine(`Robot arguments: ${formatCommand({ executable: 'robot', args: [...launch.args, ...launch.paths] })}`);
+        this.reportSkippedOptions(invocation);
+        this.outputChannel.appendLine('');
+
+        const startTime = Date.now();
+        const isOurs = (session: vscode.DebugSession) => session.configuration[DEBUG_SESSION_MARKER] === this.workspaceRoot;
+        const startListener = vscode.debug.onDidStartDebugSession(session => {
+            if (isOurs(session)) {
+                this.debugSession = session;
+            }
+        });
+        const terminateListener = vscode.debug.onDidTerminateDebugSession(session => {
+            if (session !== this.debugSession) {
+                return;
+            }
+            startListener.dispose();
+            terminateListener.dispose();
+            this.debugSession = undefined;
+            this._isRunning = false;
+            this.outputChannel.appendLine('Debug session ended');
+
+            const results = this.loadResults(startTime);
+            if (results) {
+                this.logResults(results);
+            }
+            this.onStatusChange?.(false);
+
+            // Robot exits with the number of failed tests, capped at 250
+            const exitCode = results ? Math.min(results.failed, 250) : null;
+            this.lastRun = { runId, workspaceRoot: this.workspaceRoot, mode: 'local', config: debugConfig, command, exitCode, startTime, endTime: Date.now(), results };
+            this._onDidFinishRun.fire(this.lastRun);
+            this.currentRunId = undefined;
+            this.startNext(this.lastRun);
+        });
+
+        this._isRunning = true;
+        this.onStatusChange?.(true);
+
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(this.workspaceRoot));
+        let started = false;
+        try {
+            started = await vscode.debug.startDebugging(folder, launch);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to start debugging: ${message}`);
+        }
+
+        if (!started) {
+            startListener.dispose();
+            terminateListener.dispose();
+            this._isRunning = false;
+            this.onStatusChange?.(false);
+            // Runs requested meanwhile were queued
+            this.currentRunId = undefined;
+            this.startNext();
+        }
+        return started ? runId : undefined;
+    }
+
     stop(): void {
+        this.stopRequested = this.currentRunId !== undefined;
+        if (this.debugSession) {
+            vscode.debug.stopDebugging(this.debugSession);
+            return;
+        }
+
+        const container = this.container;
+        if (container && this._isRunning) {
+            // The run goes on to copy out the results and remove the container once it has stopped
+            container.stopped = true;
+            this._isRunning = false;
+            this.outputChannel.appendLine('\n--- Test execution stopped by user, stopping the container ---');
+            if (container.id) {
+                container.engine.stopContainer(container.id, 10).catch(error => {
+                    vscode.window.showErrorMessage(`Failed to stop the container: ${error.message}`);
+                });
+            }
+            vscode.window.showInformationMessage('Test execution stopped');
+            return;
+        }
+
         if (this.currentProcess && this._isRunning) {
             try {
                 // Kill the process tree
@@ -300,7 +1254,18 @@ export class TestRunner {
     }
 
     dispose() {
+        this.removeQueued();
         this.stop();
+        // The window may close before the stopped container is removed
+        if (this.container?.id) {
+            this.container.engine.removeContainer(this.container.id).catch(() => undefined);
+        }
         this.outputChannel.dispose();
+        this._onDidFinishRun.dispose();
+        this.progressTracker?.dispose();
+        this._onDidProgress.dispose();
+        this._onDidStartDockerRun.dispose();
+        this._onDidChangeQueue.dispose();
+        this._onDidDropRun.dispose();
     }
 }
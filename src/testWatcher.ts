@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SUITE_FILE_GLOB } from './testDiscovery';
+
+// Folders whose changes never affect discovery, besides dot-folders like .git and .rf-test-runner
+const IGNORED_FOLDERS = ['node_modules'];
+
+/**
+ * Watches a workspace folder for changes to suite files. Events are collected
+ * until the folder has been quiet for a moment, so a bulk checkout produces a
+ * single change notification.
+ */
+export class TestFileWatcher implements vscode.Disposable {
+    private static readonly debounceMs = 500;
+    private readonly watcher: vscode.FileSystemWatcher;
+    private readonly folderWatcher: vscode.FileSystemWatcher;
+    private readonly _onDidChange = new vscode.EventEmitter<string[]>();
+    private pending = new Set<string>();
+    private timer?: NodeJS.Timeout;
+
+    /**
+     * Fired with the workspace-relative paths changed since the last notification
+     */
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor(private readonly folder: vscode.WorkspaceFolder) {
+        this.watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, SUITE_FILE_GLOB));
+        this.watcher.onDidCreate(uri => this.queue(uri));
+        this.watcher.onDidChange(uri => this.queue(uri));
+        this.watcher.onDidDelete(uri => this.queue(uri));
+
+        // Deleting a folder reports only the folder, not the suites inside it
+        this.folderWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, '**/*'), true, true, false);
+        this.folderWatcher.onDidDelete(uri => {
+            if (!path.extname(uri.fsPath)) {
+                this.queue(uri);
+            }
+        });
+    }
+
+    private queue(uri: vscode.Uri) {
+        const relativePath = path.relative(this.folder.uri.fsPath, uri.fsPath);
+        const segments = relativePath.split(path.sep);
+        if (segments.some(segment => segment.startsWith('.') || IGNORED_FOLDERS.includes(segment))) {
+            return;
+        }
+        if (this.outputFolders().some(folder => relativePath === folder || relativePath.startsWith(folder + path.sep))) {
+            return;
+        }
+
+        this.pending.add(relativePath);
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.timer = setTimeout(() => this.flush(), TestFileWatcher.debounceMs);
+    }
+
+    /**
+     * Workspace-relative folders runs write their results to
+     */
+    private outputFolders(): string[] {
+        const settings = vscode.workspace.getConfiguration('rfTestRunner', this.folder.uri);
+        return ['results', settings.get<string>('resultsDirectory', 'results'), settings.get<string>('dockerOutputDirectory', 'results')]
+            .filter((folder): folder is string => !!folder)
+            .map(folder => path.relative(this.folder.uri.fsPath, path.resolve(this.folder.uri.fsPath, folder)))
+            .filter(folder => folder && !folder.startsWith('..') && !path.isAbsolute(folder));
+    }
+
+    private flush() {
+        this.timer = undefined;
+        const changed = Array.from(this.pending);
+        this.pending.clear();
+        if (changed.length > 0) {
+            this._onDidChange.fire(changed);
+        }
+    }
+
+    dispose() {
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.watcher.dispose();
+        this.folderWatcher.dispose();
+        this._onDidChange.dispose();
+    }
+}
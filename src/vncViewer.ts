@@ -0,0 +1,228 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import { RobotWorkspace, WorkspaceManager } from './workspaceManager';
+
+/**
+ * Whether the noVNC page answers on the port
+ */
+function probe(port: number, pagePath: string): Promise<boolean> {
+    return new Promise(resolve => {
+        const request = http.get({ host: '127.0.0.1', port, path: `/${pagePath}`, timeout: 2000 }, response => {
+            response.resume();
+            resolve((response.statusCode ?? 500) < 400);
+        });
+        request.on('timeout', () => request.destroy());
+        request.on('error', () => resolve(false));
+    });
+}
+
+/**
+ * Shows the browser of a Docker run in an editor panel, through the noVNC web client
+ * served by the container's websockify. Opens when a Docker run starts and closes when
+ * it ends, unless the run keeps its VNC session open.
+ */
+export class VncViewer implements vscode.Disposable {
+    private static readonly pollMs = 1000;
+    private panel?: vscode.WebviewPanel;
+    private viewOnly?: boolean;
+    // Folder of the run shown, while the panel should close with that run
+    private closeWithRun?: string;
+    private connectTimeoutMs = 60000;
+    // Last status or connect message, sent again when the panel (re)loads
+    private lastMessage?: object;
+    // Increased by every connect, so an older wait stops polling
+    private attempt = 0;
+    private readonly listeners: vscode.Disposable[];
+
+    constructor(private readonly workspaces: WorkspaceManager) {
+        this.listeners = [
+            this.workspaces.onDidStartDockerRun(({ workspace, start }) => {
+                // Headless browsers have nothing to show
+                if (this.settings(workspace).get<boolean>('vncAutoOpen', true) && !start.config.headless) {
+                    this.show(workspace, start.vncPort, !start.config.keepVncOpen);
+                }
+            }),
+            this.workspaces.onDidFinishRun(result => {
+                if (this.panel && this.closeWithRun === result.workspaceRoot) {
+                    this.panel.dispose();
+                }
+            })
+        ];
+    }
+
+    private settings(workspace?: RobotWorkspace): vscode.WorkspaceConfiguration {
+        return vscode.workspace.getConfiguration('rfTestRunner', workspace?.folder.uri);
+    }
+
+    /**
+     * Open the viewer on a port, rfTestRunner.vncPort by default, and connect once noVNC answers
+     * @param closeWithRun Close the panel when the folder's current run finishes (with rfTestRunner.vncAutoClose)
+     */
+    show(workspace: RobotWorkspace, port?: number, closeWithRun: boolean = false) {
+        const settings = this.settings(workspace);
+        const vncPort = port ?? settings.get<number>('vncPort', 6080);
+        const pagePath = settings.get<string>('vncPath', 'vnc.html').replace(/^\/+/, '');
+        this.viewOnly = this.viewOnly ?? settings.get<boolean>('vncViewOnly', true);
+        this.closeWithRun = closeWithRun && settings.get<boolean>('vncAutoClose', true) ? workspace.root : undefined;
+        this.connectTimeoutMs = settings.get<number>('vncConnectTimeout', 60) * 1000;
+
+        const title = this.workspaces.isMultiRoot ? `Browser (${workspace.name})` : 'Browser (VNC)';
+        if (this.panel) {
+            this.panel.title = title;
+            this.panel.reveal(undefined, true);
+        } else {
+            this.panel = vscode.window.createWebviewPanel(
+                'rfTestRunner.vnc',
+                title,
+                { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+                { enableScripts: true, retainContextWhenHidden: true }
+            );
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+                this.closeWithRun = undefined;
+                this.attempt++;
+            });
+            this.panel.webview.onDidReceiveMessage(message => {
+                switch (message.type) {
+                    case 'ready':
+                        if (this.lastMessage) {
+                            this.panel?.webview.postMessage(this.lastMessage);
+                        }
+                        break;
+                    case 'setViewOnly':
+                        this.viewOnly = message.viewOnly;
+                        break;
+                    case 'reconnect':
+                        this.connect(message.port, message.path);
+                        break;
+                    case 'openExternal':
+                        vscode.env.openExternal(vscode.Uri.parse(message.url));
+                        break;
+                }
+            });
+        }
+
+        this.panel.webview.html = this.getHtml(vncPort, pagePath);
+        this.connect(vncPort, pagePath);
+    }
+
+    /**
+     * Wait until the noVNC page answers, then load it in the panel
+     */
+    private async connect(port: number, pagePath: string) {
+        const attempt = ++this.attempt;
+        const timeoutMs = this.connectTimeoutMs;
+        const post = (message: object) => {
+            this.lastMessage = message;
+            this.panel?.webview.postMessage(message);
+        };
+
+        post({ type: 'status', text: `Waiting for noVNC on port ${port}...` });
+        for (let waited = 0; !await probe(port, pagePath); waited += VncViewer.pollMs) {
+            if (attempt !== this.attempt) {
+                return;
+            }
+            if (waited >= timeoutMs) {
+                post({ type: 'status', text: `noVNC did not answer on port ${port} within ${timeoutMs / 1000}s`, failed: true });
+                return;
+            }
+            await new Promise(resolve => setTimeout(resolve, VncViewer.pollMs));
+        }
+        if (attempt !== this.attempt) {
+            return;
+        }
+
+        // Forwarded when VS Code runs remotely
+        const base = await vscode.env.asExternalUri(vscode.Uri.parse(`http://127.0.0.1:${port}/`));
+        post({ type: 'connect', url: `${base.toString(true)}${pagePath}` });
+    }
+
+    private getHtml(port: number, pagePath: string): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Browser (VNC)</title>
+    <style>
+        html, body { height: 100%; margin: 0; padding: 0; overflow: hidden; }
+        body { display: flex; flex-direction: column; font-family: var(--vscode-font-family); font-size: 13px; color: var(--vscode-foreground); }
+        .toolbar { display: flex; align-items: center; gap: 12px; padding: 6px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+        .status { flex: 1; font-size: 12px; color: var(--vscode-descriptionForeground); overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+        .status.failed { color: var(--vscode-errorForeground); }
+        .btn { padding: 4px 10px; border: none; border-radius: 3px; cursor: pointer; background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+        .btn:disabled { opacity: 0.5; cursor: not-allowed; }
+        label { display: flex; align-items: center; gap: 4px; cursor: pointer; }
+        iframe { flex: 1; width: 100%; border: none; background: #000; }
+    </style>
+</head>
+<body>
+    <div class="toolbar">
+        <span class="status" id="status"></span>
+        <label title="Interactive mode passes mouse and keyboard input to the browser in the container">
+            <input type="checkbox" id="viewOnly"${this.viewOnly ? ' checked' : ''} onchange="setViewOnly(this.checked)"> View only
+        </label>
+        <button class="btn" onclick="reconnect()">Reconnect</button>
+        <button class="btn" id="externalBtn" onclick="openExternal()" disabled>Open in Browser</button>
+    </div>
+    <iframe id="vnc" title="noVNC" allow="clipboard-read; clipboard-write"></iframe>
+    <script>
+        const vscode = acquireVsCodeApi();
+        const port = ${port};
+        const pagePath = ${JSON.stringify(pagePath)};
+        let pageUrl = '';
+
+        // noVNC reads its options from the query string, so switching modes reloads the client
+        function clientUrl() {
+            const viewOnly = document.getElementById('viewOnly').checked;
+            return pageUrl + (pageUrl.indexOf('?') === -1 ? '?' : '&')
+                + 'autoconnect=true&reconnect=true&reconnect_delay=2000&resize=scale&view_only=' + viewOnly;
+        }
+
+        function setViewOnly(viewOnly) {
+            vscode.postMessage({ type: 'setViewOnly', viewOnly: viewOnly });
+            if (pageUrl) {
+                document.getElementById('vnc').src = clientUrl();
+            }
+        }
+
+        function reconnect() {
+            pageUrl = '';
+            document.getElementById('vnc').removeAttribute('src');
+            document.getElementById('externalBtn').disabled = true;
+            vscode.postMessage({ type: 'reconnect', port: port, path: pagePath });
+        }
+
+        function openExternal() {
+            vscode.postMessage({ type: 'openExternal', url: clientUrl() });
+        }
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            const status = document.getElementById('status');
+            switch (message.type) {
+                case 'status':
+                    status.textContent = message.text;
+                    status.className = message.failed ? 'status failed' : 'status';
+                    break;
+                case 'connect':
+                    pageUrl = message.url;
+                    status.textContent = 'Connected to port ' + port;
+                    status.className = 'status';
+                    document.getElementById('externalBtn').disabled = false;
+                    document.getElementById('vnc').src = clientUrl();
+                    break;
+            }
+        });
+
+        vscode.postMessage({ type: 'ready' });
+    </script>
+</body>
+</html>`;
+    }
+
+    dispose() {
+        this.listeners.forEach(listener => listener.dispose());
+        this.panel?.dispose();
+    }
+}
@@ -1,15 +1,23 @@
 import * as vscode from 'vscode';
-import * as fs from 'fs';
-import * as path from 'path';
 import { ResultsServiceManager } from './resultsService';
-import { TestRunner, TestConfig, TestSelection, defaultConfig } from './testRunner';
-
-interface TestItem {
-    name: string;
-    path: string;
-    type: 'test' | 'suite' | 'module';
-    testName?: string;  // For individual test cases
-    children?: TestItem[];
+import { TestRunner, TestConfig, RunResult, defaultConfig } from './testRunner';
+import { TestDiscovery, TestItem, collectSuites, getDiscoverySettings } from './testDiscovery';
+import { RunHistory } from './runHistory';
+import { ResultsViewer } from './resultsViewer';
+import { ProfileManager } from './profileManager';
+import { DockerImage } from './dockerImages';
+import { VncViewer } from './vncViewer';
+import { RobotWorkspace, WorkspaceManager } from './workspaceManager';
+import { parseTagPatterns, matchesTagFilter } from './tagMatcher';
+
+/**
+ * Module and suite paths of a discovery tree, ignoring the test cases
+ */
+function outline(items: TestItem[]): string {
+    return items
+        .filter(item => item.type !== 'test')
+        .map(item => item.path + (item.type === 'module' ? `[${outline(item.children ?? [])}]` : ''))
+        .join(',');
 }
 
 export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
@@ -17,29 +25,113 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
     private _view?: vscode.WebviewView;
     private config: TestConfig;
     private testItems: TestItem[] = [];
+    // Last run of each workspace folder, keyed by folder path
+    private lastRunResults = new Map<string, RunResult>();
+    private activeProfile?: string;
 
     constructor(
         private readonly _extensionUri: vscode.Uri,
-        private readonly workspaceRoot: string,
-        private readonly resultsService: ResultsServiceManager,
-        private readonly testRunner: TestRunner
+        private readonly workspaces: WorkspaceManager,
+        private readonly runHistory: RunHistory,
+        private readonly resultsViewer: ResultsViewer,
+        private readonly vncViewer: VncViewer
     ) {
+        this.config = { ...defaultConfig };
+        this.loadActiveWorkspace();
+
+        this.workspaces.onDidFinishRun(result => {
+            this.lastRunResults.set(result.workspaceRoot, result);
+            if (result.workspaceRoot === this.workspaces.active?.root) {
+                this.sendRunResults();
+            }
+        });
+
+        this.workspaces.onDidChangeActive(() => {
+            this.loadActiveWorkspace();
+            this.sendInitialState();
+        });
+        this.workspaces.onDidChangeWorkspaces(() => this.sendFolders());
+        this.workspaces.onDidChangeImages(workspace => {
+            if (workspace === this.workspaces.active) {
+                this.sendImages();
+            }
+        });
+        this.workspaces.onDidChangeQueue(workspace => {
+            if (workspace === this.workspaces.active) {
+                this.sendRunQueue();
+            }
+        });
+        this.workspaces.onDidChangeServiceStatus(workspace => {
+            if (workspace === this.workspaces.active) {
+                this.updateServiceStatus();
+            }
+        });
+        this.workspaces.onDidProgress(({ workspace, progress }) => {
+            if (workspace === this.workspaces.active) {
+                this._view?.webview.postMessage({ type: 'runProgress', progress });
+            }
+        });
+        this.workspaces.onDidChangeTests(workspace => {
+            if (workspace === this.workspaces.active) {
+                this.updateTestList(workspace.discovery.items);
+            }
+        });
+
+        this.runHistory.onDidChange(() => this.sendRunHistory());
+    }
+
+    /**
+     * The workspace folder the view works on; the extension only activates with a folder open
+     */
+    private get workspace(): RobotWorkspace {
+        const workspace = this.workspaces.active;
+        if (!workspace) {
+            throw new Error('No workspace folder is open');
+        }
+        return workspace;
+    }
+
+    private get testRunner(): TestRunner {
+        return this.workspace.testRunner;
+    }
+
+    private get resultsService(): ResultsServiceManager {
+        return this.workspace.resultsService;
+    }
+
+    private get discovery(): TestDiscovery {
+        return this.workspace.discovery;
+    }
+
+    private get profiles(): ProfileManager {
+        return this.workspace.profiles;
+    }
+
+    /**
+     * Load the configuration, default profile and tests of the selected workspace folder
+     */
+    private loadActiveWorkspace() {
+        if (!this.workspaces.active) {
+            this.activeProfile = undefined;
+            this.testItems = [];
+            return;
+        }
+
+        this.activeProfile = this.profiles.defaultProfile;
         this.config = this.loadConfigFromWorkspace();
         this.scanForTests();
     }
 
     private loadConfigFromWorkspace(): TestConfig {
-        const workspaceConfig = vscode.workspace.getConfiguration('rfTestRunner');
-        const savedConfig = workspaceConfig.get('config', {}) as Partial<TestConfig>;
-
-        // Merge saved config with defaults to ensure all properties exist
-        return { ...defaultConfig, ...savedConfig };
+        return this.workspace.loadConfig(this.activeProfile);
     }
 
     private saveConfigToWorkspace(config: TestConfig): void {
-        const workspaceConfig = vscode.workspace.getConfiguration('rfTestRunner');
-        // Only save the values that are different from defaults to keep the settings clean
-        workspaceConfig.update('config', config, vscode.ConfigurationTarget.Workspace);
+        // The form of a selected profile is only written back by the profile's Save action
+        if (this.activeProfile && this.profiles.has(this.activeProfile)) {
+            return;
+        }
+        this.workspace.saveConfig(config);
     }
 
     public resolveWebviewView(
@@ -57,13 +149,22 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
         webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
 
         webviewView.webview.onDidReceiveMessage(async (data) => {
+            if (!this.workspaces.active) {
+                vscode.window.showWarningMessage('Open a workspace folder to run Robot Framework tests');
+                return;
+            }
+
             switch (data.type) {
+                case 'selectFolder':
+                    // Switching folders reloads the view through onDidChangeActive
+                    this.workspaces.setActive(data.id);
+                    break;
                 case 'startResultsService':
                     await this.resultsService.start(data.port);
                     this.updateServiceStatus();
                     break;
                 case 'stopResultsService':
-                    this.resultsService.stop();
+                    await this.resultsService.stop();
                     this.updateServiceStatus();
                     break;
                 case 'runTests':
@@ -72,6 +173,54 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
                     await this.testRunner.run(data.mode, this.config);
                     this.updateRunnerStatus();
                     break;
+                case 'moveQueued':
+                    this.testRunner.moveQueued(data.runId, data.offset);
+                    break;
+                case 'removeQueued':
+                    this.testRunner.removeQueued(data.runId);
+                    break;
+                case 'clearQueue':
+                    this.testRunner.removeQueued();
+                    break;
+                case 'rerunFailed':
+                    await this.testRunner.rerunFailed();
+                    this.updateRunnerStatus();
+                    break;
+                case 'openHistoryReport': {
+                    const reportFile = this.runHistory.reportFile(data.id);
+                    if (reportFile) {
+                        this.resultsViewer.openArtifact(reportFile);
+                    }
+                    break;
+                }
+                case 'listImages':
+                    await this.sendImages();
+                    break;
+                case 'buildImage':
+                    // The list refreshes through onDidChangeImages when the build starts and ends
+                    this.workspace.images.build(data.image);
+                    break;
+                case 'showVnc':
+                    this.vncViewer.show(this.workspace);
+                    break;
+                case 'showResults':
+                    // From Last Run Results, open the summary on the folder's last run
+                    this.resultsViewer.show(data.lastRun ? this.lastRunResults.get(this.workspace.root)?.results?.outputPath : undefined);
+                    break;
+                case 'rerunHistory': {
+                    const record = this.runHistory.get(data.id);
+                    if (record) {
+                        await this.testRunner.run(record.mode, record.config);
+                        this.updateRunnerStatus();
+                    }
+                    break;
+                }
+                case 'deleteHistory':
+                    await this.runHistory.remove(data.id);
+                    break;
+                case 'clearHistory':
+                    await this.runHistory.clear();
+                    break;
                 case 'stopTests':
                     this.testRunner.stop();
                     this.updateRunnerStatus();
@@ -80,6 +229,18 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
                     this.config = { ...this.config, ...data.config };
                     this.saveConfigToWorkspace(this.config); // Save config when updated
                     break;
+                case 'selectProfile':
+                    this.activeProfile = data.name || undefined;
+                    this.config = this.loadConfigFromWorkspace();
+                    this._view?.webview.postMessage({ type: 'applyConfig', config: this.config });
+                    this.sendProfiles();
+                    break;
+                case 'profileAction':
+                    await this.handleProfileAction(data.action, { ...this.config, ...data.config });
+                    break;
+                case 'countTags':
+                    this.sendTagCount(data.includeTags ?? '', data.excludeTags ?? '');
+                    break;
                 case 'refreshTests':
                     this.scanForTests();
                     this.sendTestList();
@@ -92,13 +253,240 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
     }
 
     private sendInitialState() {
+        if (!this.workspaces.active) {
+            return;
+        }
+
         this._view?.webview.postMessage({
             type: 'initialState',
             config: this.config,
             tests: this.testItems,
+            testRoots: getDiscoverySettings(this.workspace.folder.uri).testRoots,
             resultsServiceRunning: this.resultsService.isRunning,
             resultsServicePort: this.resultsService.port,
-            testRunning: this.testRunner.isRunning
+            resultsServiceStatus: this.resultsService.status,
+            testRunning: this.testRunner.isRunning,
+            progress: this.testRunner.progress
+        });
+        this.sendFolders();
+        this.sendRunResults();
+        this.sendRunHistory();
+        this.sendProfiles();
+        this.sendImages();
+        this.sendRunQueue();
+    }
+
+    /**
+     * List the local images of the configured repository; Docker errors are shown in the section
+     */
+    private async sendImages() {
+        const workspace = this.workspaces.active;
+        if (!workspace) {
+            return;
+        }
+
+        const images = workspace.images;
+        let list: DockerImage[] = [];
+        let error: string | undefined;
+        try {
+            list = await images.list();
+        } catch (e) {
+            error = e instanceof Error ? e.message : 'Unknown error';
+        }
+
+        this._view?.webview.postMessage({
+            type: 'dockerImages',
+            repository: images.repository,
+            images: list,
+            error,
+            building: images.isBuilding,
+            hasDockerfile: images.hasDockerfile
+        });
+    }
+
+    /**
+     * Count the discovered tests selected by the given include/exclude tag expressions
+     */
+    private sendTagCount(includeTags: string, excludeTags: string) {
+        const include = parseTagPatterns(includeTags);
+        const exclude = parseTagPatterns(excludeTags);
+        const tests: TestItem[] = [];
+        const collect = (items: TestItem[]) => {
+            for (const item of items) {
+                if (item.type === 'test') {
+                    tests.push(item);
+                }
+                if (item.children) {
+                    collect(item.children);
+                }
+            }
+        };
+        collect(this.testItems);
+
+        this._view?.webview.postMessage({
+            type: 'tagCount',
+            matching: tests.filter(test => matchesTagFilter(test.tags ?? [], include, exclude)).length,
+            total: tests.length
+        });
+    }
+
+    private sendFolders() {
+        this._view?.webview.postMessage({
+            type: 'folders',
+            folders: this.workspaces.workspaces.map(workspace => ({ id: workspace.id, name: workspace.name })),
+            active: this.workspaces.active?.id ?? ''
+        });
+    }
+
+    private sendProfiles() {
+        this._view?.webview.postMessage({
+            type: 'profiles',
+            names: this.profiles.names,
+            active: this.activeProfile ?? '',
+            defaultProfile: this.profiles.defaultProfile ?? ''
+        });
+    }
+
+    /**
+     * Create, duplicate, rename, delete or set the default profile from the webview
+     */
+    private async handleProfileAction(action: string, config: TestConfig) {
+        const active = this.activeProfile;
+        const askName = (prompt: string, value?: string) => vscode.window.showInputBox({
+            prompt,
+            value,
+            validateInput: name => {
+                if (!name.trim()) {
+                    return 'Profile name cannot be empty';
+                }
+                return this.profiles.has(name.trim()) ? `Profile "${name.trim()}" already exists` : undefined;
+            }
+        });
+
+        try {
+            switch (action) {
+                case 'save':
+                    this.config = config;
+                    if (!active) {
+                        vscode.window.showWarningMessage('Select or create a profile first');
+                        return;
+                    }
+                    await this.profiles.save(active, config);
+                    vscode.window.showInformationMessage(`Saved profile "${active}"`);
+                    break;
+                case 'create': {
+                    const name = await askName('Name of the new profile (saved from the current configuration)');
+                    if (!name) {
+                        return;
+                    }
+                    this.config = config;
+                    await this.profiles.save(name.trim(), config);
+                    this.activeProfile = name.trim();
+                    break;
+                }
+                case 'duplicate': {
+                    if (!active) {
+                        return;
+                    }
+                    const name = await askName(`Name of the copy of "${active}"`, `${active} (copy)`);
+                    if (!name) {
+                        return;
+                    }
+                    await this.profiles.duplicate(active, name.trim());
+                    this.activeProfile = name.trim();
+                    break;
+                }
+                case 'rename': {
+                    if (!active) {
+                        return;
+                    }
+                    const name = await askName(`New name for "${active}"`, active);
+                    if (!name) {
+                        return;
+                    }
+                    await this.profiles.rename(active, name.trim());
+                    this.activeProfile = name.trim();
+                    break;
+                }
+                case 'delete': {
+                    if (!active) {
+                        return;
+                    }
+                    const choice = await vscode.window.showWarningMessage(
+                        `Delete profile "${active}"?`, { modal: true }, 'Delete'
+                    );
+                    if (choice !== 'Delete') {
+                        return;
+                    }
+                    await this.profiles.delete(active);
+                    this.activeProfile = undefined;
+                    break;
+                }
+                case 'setDefault':
+                    await this.profiles.setDefault(active);
+                    break;
+            }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Profile action failed: ${message}`);
+        }
+
+        this.sendProfiles();
+    }
+
+    private sendRunHistory() {
+        this._view?.webview.postMessage({
+            type: 'runHistory',
+            // Runs recorded before multi-root support have no folder and are listed everywhere
+            records: this.runHistory.records
+                .filter(record => !record.workspaceRoot || record.workspaceRoot === this.workspaces.active?.root)
+                .map(record => ({
+                    id: record.id,
+                    timestamp: record.timestamp,
+                    mode: record.mode,
+                    command: record.command,
+                    exitCode: record.exitCode,
+                    durationMs: record.durationMs,
+                    passed: record.passed,
+                    failed: record.failed,
+                    skipped: record.skipped,
+                    hasArtifacts: !!record.reportDir
+                }))
+        });
+    }
+
+    private sendRunQueue() {
+        this._view?.webview.postMessage({
+            type: 'runQueue',
+            items: this.testRunner.queue.map(item => ({
+                runId: item.runId,
+                mode: item.mode,
+                label: item.label,
+                queuedAt: item.queuedAt
+            }))
+        });
+    }
+
+    private sendRunResults() {
+        const result = this.lastRunResults.get(this.workspace.root);
+        if (!result) {
+            return;
+        }
+
+        this._view?.webview.postMessage({
+            type: 'runResults',
+            exitCode: result.exitCode,
+            canRerunFailed: this.testRunner.canRerunFailed,
+            passed: result.results?.passed,
+            failed: result.results?.failed,
+            skipped: result.results?.skipped,
+            tests: result.results?.tests.map(test => ({
+                name: test.name,
+                longName: test.longName,
+                status: test.status,
+                message: test.message,
+                elapsedMs: test.elapsedMs
+            })) ?? []
         });
     }
 
@@ -106,7 +494,8 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
         this._view?.webview.postMessage({
             type: 'serviceStatus',
             running: this.resultsService.isRunning,
-            port: this.resultsService.port
+            port: this.resultsService.port,
+            status: this.resultsService.status
         });
     }
 
@@ -120,17 +509,40 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
     private sendTestList() {
         this._view?.webview.postMessage({
             type: 'testList',
-            tests: this.testItems
+            tests: this.testItems,
+            testRoots: getDiscoverySettings(this.workspaces.active?.folder.uri).testRoots
         });
     }
 
-    public startResultsService() {
-        this.resultsService.start();
+    /**
+     * Replace the test list after files changed on disk. When only the tests inside
+     * existing suites changed, just those suites are sent to the webview.
+     */
+    private updateTestList(items: TestItem[]) {
+        const structureChanged = outline(this.testItems) !== outline(items);
+        const previous = collectSuites(this.testItems);
+        const next = collectSuites(items);
+        this.testItems = items;
+
+        if (structureChanged) {
+            this.sendTestList();
+            return;
+        }
+
+        const changed = Array.from(next.values())
+            .filter(suite => JSON.stringify(suite) !== JSON.stringify(previous.get(suite.path)));
+        if (changed.length > 0) {
+            this._view?.webview.postMessage({ type: 'testListDiff', suites: changed });
+        }
+    }
+
+    public async startResultsService() {
+        await this.resultsService.start();
         this.updateServiceStatus();
     }
 
-    public stopResultsService() {
-        this.resultsService.stop();
+    public async stopResultsService() {
+        await this.resultsService.stop();
         this.updateServiceStatus();
     }
 
@@ -140,6 +552,25 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
         this.updateRunnerStatus();
     }
 
+    public getCurrentConfig(): TestConfig {
+        return this.config;
+    }
+
+    /**
+     * Configuration used for runs in a workspace folder: the form for the selected
+     * folder, the saved configuration (or default profile) for the others
+     */
+    public getConfigFor(workspace: RobotWorkspace): TestConfig {
+        return workspace === this.workspaces.active
+            ? this.config
+            : workspace.loadConfig(workspace.profiles.defaultProfile);
+    }
+
+    public rerunFailedTests() {
+        this.testRunner.rerunFailed();
+        this.updateRunnerStatus();
+    }
+
     public refreshTestList() {
         this.scanForTests();
         this.sendTestList();
@@ -158,99 +589,7 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
     }
 
     private scanForTests() {
-        this.testItems = [];
-        const testsDir = path.join(this.workspaceRoot, 'Tests');
-
-        if (!fs.existsSync(testsDir)) {
-            return;
-        }
-
-        this.testItems = this.scanDirectory(testsDir, 'Tests');
-    }
-
-    private scanDirectory(dirPath: string, relativePath: string): TestItem[] {
-        const items: TestItem[] = [];
-
-        try {
-            const entries = fs.readdirSync(dirPath, { withFileTypes: true });
-
-            for (const entry of entries) {
-                const fullPath = path.join(dirPath, entry.name);
-                const itemRelativePath = path.join(relativePath, entry.name);
-
-                if (entry.isDirectory()) {
-                    const children = this.scanDirectory(fullPath, itemRelativePath);
-                    if (children.length > 0) {
-                        items.push({
-                            name: entry.name,
-                            path: itemRelativePath,
-                            type: 'module',
-                            children
-                        });
-                    }
-                } else if (entry.name.endsWith('.robot') && !entry.name.startsWith('__init__')) {
-                    // Skip __init__.robot files (suite setup files)
-                    // Parse robot file to extract test cases
-                    const testCases = this.parseRobotFile(fullPath);
-                    const suiteItem: TestItem = {
-                        name: entry.name.replace('.robot', ''),
-                        path: itemRelativePath,
-                        type: 'suite',
-                        children: testCases.length > 0 ? testCases.map(tc => ({
-                            name: tc,
-                            path: itemRelativePath,
-                            type: 'test' as const,
-                            testName: tc
-                        })) : undefined
-                    };
-                    items.push(suiteItem);
-                }
-            }
-        } catch (error) {
-            console.error('Error scanning directory:', error);
-        }
-
-        return items;
-    }
-
-    /**
-     * Parse a robot file to extract test case names
-     */
-    private parseRobotFile(filePath: string): string[] {
-        const testCases: string[] = [];
-
-        try {
-            const content = fs.readFileSync(filePath, 'utf-8');
-            const lines = content.split('\n');
-
-            let inTestCasesSection = false;
-
-            for (const line of lines) {
-                const trimmedLine = line.trim();
-
-                // Check for section headers
-                if (trimmedLine.startsWith('***')) {
-                    const sectionMatch = trimmedLine.match(/\*{3}\s*(.*?)\s*\*{3}/i);
-                    if (sectionMatch) {
-                        const sectionName = sectionMatch[1].toLowerCase();
-                        inTestCasesSection = sectionName.includes('test case') || sectionName.includes('task');
-                    }
-                    continue;
-                }
-
-                // If we're in test cases section and line doesn't start with space/tab, it's a test name
-                if (inTestCasesSection && trimmedLine && !line.startsWith(' ') && !line.startsWith('\t')) {
-                    // Skip comments and empty lines
-                    if (!trimmedLine.startsWith('#') && !trimmedLine.startsWith('[')) {
-                        testCases.push(trimmedLine);
-                    }
-                }
-            }
-        } catch (error) {
-            console.error('Error parsing robot file:', error);
-        }
-
-        return testCases;
+        this.testItems = this.workspaces.active?.discovery.scan() ?? [];
     }
 
     private _getHtmlForWebview(_webview: vscode.Webview) {
@@ -307,10 +646,41 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
         .test-item { padding: 4px 0; display: flex; align-items: center; gap: 6px; }
         .test-item input[type="radio"], .test-item input[type="checkbox"] { margin: 0; cursor: pointer; }
         .test-item label { margin: 0; cursor: pointer; display: inline; font-weight: normal; color: var(--vscode-foreground); flex: 1; font-size: 12px; }
+        .results-summary { font-size: 12px; margin: 10px 0 6px; }
+        .result-item { padding: 3px 0; font-size: 12px; }
+        .result-item .result-status { display: inline-block; width: 36px; font-weight: 600; font-size: 10px; }
+        .result-status.PASS { color: #81c784; }
+        .result-status.FAIL { color: #e57373; }
+        .result-status.SKIP, .result-status.NOT { color: var(--vscode-descriptionForeground); }
+        .suite-group { margin-bottom: 4px; }
+        .suite-group .test-item.suite-header label { font-weight: 600; }
+        .suite-group .suite-tests { padding-left: 18px; }
+        .tag-list { display: flex; flex-wrap: wrap; gap: 4px; max-height: 120px; overflow-y: auto; }
+        .tag { display: inline-block; padding: 1px 6px; border-radius: 8px; font-size: 10px; background: var(--vscode-badge-background); color: var(--vscode-badge-foreground); }
+        .tag-list .tag { cursor: pointer; }
+        .profile-actions { display: flex; flex-wrap: wrap; gap: 4px; margin-top: 6px; }
+        .profile-actions .btn { padding: 3px 8px; font-size: 11px; }
+        .history-item { padding: 6px 0; border-bottom: 1px solid var(--vscode-panel-border); font-size: 12px; }
+        .history-item:last-child { border-bottom: none; }
+        .history-meta { font-size: 11px; color: var(--vscode-descriptionForeground); }
+        .history-actions { display: flex; gap: 6px; margin-top: 4px; }
+        .history-actions .btn { padding: 3px 8px; font-size: 11px; }
+        .progress-bar { height: 6px; border-radius: 3px; overflow: hidden; background: var(--vscode-input-background); }
+        .progress-fill { height: 100%; width: 0; background: var(--vscode-progressBar-background, #0e70c0); transition: width 0.3s; }
+        .progress-fill.failed { background: #d32f2f; }
+        .progress-stats { font-size: 11px; margin-top: 4px; }
+        .progress-current { font-size: 11px; color: var(--vscode-descriptionForeground); white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+        .result-message { font-size: 11px; color: var(--vscode-descriptionForeground); margin-left: 36px; white-space: pre-wrap; word-break: break-word; }
     </style>
 </head>
 <body>
     <div class="container">
+        <!-- Workspace Folder Selector (multi-root workspaces only) -->
+        <div class="form-group" id="folderSelector" style="display: none; margin-bottom: 16px;">
+            <label for="workspaceFolder">Workspace Folder</label>
+            <select id="workspaceFolder" onchange="selectFolder(this.value)"></select>
+        </div>
+
         <!-- Results Service Section -->
         <div class="section">
             <div class="section-header" onclick="toggleSection(this)">
@@ -330,6 +700,9 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
                     <button class="btn btn-success" id="startServiceBtn" onclick="startService()">Start</button>
                     <button class="btn btn-danger" id="stopServiceBtn" onclick="stopService()" disabled>Stop</button>
                 </div>
+                <button class="btn btn-secondary" onclick="showResults(false)" style="width: 100%; margin-top: 8px;">
+                    View Results in Editor
+                </button>
             </div>
         </div>
 
@@ -341,24 +714,20 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
             </div>
             <div class="section-content">
                 <div class="tabs">
-                    <button class="tab active" onclick="switchTestTab('single')">Single Test</button>
+                    <button class="tab active" onclick="switchTestTab('single')">Test Cases</button>
                     <button class="tab" onclick="switchTestTab('suite')">Suite(s)</button>
                     <button class="tab" onclick="switchTestTab('module')">Module</button>
+                    <button class="tab" onclick="switchTestTab('tags')">Tags</button>
                 </div>
 
-                <!-- Single Test Tab -->
+                <!-- Test Cases Tab -->
                 <div id="singleTestTab" class="tab-content active">
                     <div class="form-group">
-                        <label for="singleTestSuite">Select Suite</label>
-                        <select id="singleTestSuite" onchange="updateTestCaseList()">
-                            <option value="">-- Select a suite --</option>
-                        </select>
-                    </div>
-                    <div class="form-group">
-                        <label>Select Test Case</label>
-                        <div class="test-list" id="testCaseList">
-                            <div style="color: var(--vscode-descriptionForeground); font-style: italic;">Select a suite first</div>
+                        <label>Select Test Cases <span id="selectedTestCount" class="info-text"></span></label>
+                        <div class="test-list" id="testCaseList" style="max-height: 300px;">
+                            <div style="color: var(--vscode-descriptionForeground); font-style: italic;">No test cases found</div>
                         </div>
+                        <button class="btn btn-secondary" onclick="clearTestCaseSelection()" style="margin-top: 6px; padding: 3px 8px; font-size: 11px;">Clear Selection</button>
                     </div>
                 </div>
 
@@ -382,6 +751,26 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
                     </div>
                 </div>
 
+                <!-- Tags Tab -->
+                <div id="tagsTab" class="tab-content">
+                    <div class="form-group">
+                        <label for="includeTags">Include (one expression per line)</label>
+                        <textarea id="includeTags" placeholder="smokeANDuat&#10;api OR ui" oninput="requestTagCount()"></textarea>
+                    </div>
+                    <div class="form-group">
+                        <label for="excludeTags">Exclude (one expression per line)</label>
+                        <textarea id="excludeTags" placeholder="flaky&#10;wipNOTready" oninput="requestTagCount()"></textarea>
+                    </div>
+                    <div class="info-text" id="tagCount"></div>
+                    <div class="form-group" style="margin-top: 12px;">
+                        <label>Available Tags</label>
+                        <div class="tag-list" id="tagList">
+                            <div style="color: var(--vscode-descriptionForeground); font-style: italic;">No tags found</div>
+                        </div>
+                        <div class="info-text">Click a tag to add it to Include. Combine tags with AND, OR and NOT; * and ? are wildcards. Tag filters also apply to the selection in the other tabs.</div>
+                    </div>
+                </div>
+
                 <button class="btn btn-secondary" onclick="refreshTests()" style="margin-top: 8px; width: 100%;">
                     Refresh Test List
                 </button>
@@ -401,6 +790,21 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
                 <span class="toggle">▼</span>
             </div>
             <div class="section-content">
+                <div class="form-group">
+                    <label for="profileSelect">Profile</label>
+                    <select id="profileSelect" onchange="selectProfile(this.value)">
+                        <option value="">(No profile)</option>
+                    </select>
+                    <div class="profile-actions">
+                        <button class="btn btn-secondary" onclick="profileAction('create')">New</button>
+                        <button class="btn btn-secondary profile-only" onclick="profileAction('save')">Save</button>
+                        <button class="btn btn-secondary profile-only" onclick="profileAction('duplicate')">Duplicate</button>
+                        <button class="btn btn-secondary profile-only" onclick="profileAction('rename')">Rename</button>
+                        <button class="btn btn-secondary profile-only" onclick="profileAction('delete')">Delete</button>
+                        <button class="btn btn-secondary profile-only" id="setDefaultProfileBtn" onclick="profileAction('setDefault')">Set Default</button>
+                    </div>
+                </div>
+
                 <div class="tabs">
                     <button class="tab active" onclick="switchRunTab('docker')" id="dockerTabBtn">Docker</button>
                     <button class="tab" onclick="switchRunTab('local')" id="localTabBtn">Local</button>
@@ -550,7 +954,8 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
                     </div>
                     <div class="form-group">
                         <label for="imageName">Docker Image</label>
-                        <input type="text" id="imageName" value="robot-framework-custom:latest">
+                        <input type="text" id="imageName" value="robot-framework-custom:latest" oninput="renderImages()">
+                        <div class="info-text" id="imageMissing" style="display: none;">Not found among the local images</div>
                     </div>
                 </div>
 
@@ -570,6 +975,30 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
                     </div>
                 </div>
 
+                <!-- Parallel Execution (pabot) -->
+                <div class="divider"></div>
+                <label style="font-weight: 600; margin-bottom: 10px; display: block; color: var(--vscode-textLink-foreground);">Parallel Execution (pabot)</label>
+                <div class="inline-group">
+                    <div class="form-group">
+                        <label for="parallel">Run in Parallel</label>
+                        <select id="parallel"><option value="false">False</option><option value="true">True</option></select>
+                    </div>
+                    <div class="form-group">
+                        <label for="parallelProcesses">Processes</label>
+                        <input type="number" id="parallelProcesses" value="4" min="1" max="64">
+                    </div>
+                </div>
+                <div class="inline-group">
+                    <div class="form-group">
+                        <label for="testLevelSplit">Test Level Split</label>
+                        <select id="testLevelSplit"><option value="false">False</option><option value="true">True</option></select>
+                    </div>
+                    <div class="form-group">
+                        <label for="orderingFile">Ordering File</label>
+                        <input type="text" id="orderingFile" placeholder=".pabotsuitenames">
+                    </div>
+                </div>
+
                 <div class="divider"></div>
 
                 <div class="form-group">
@@ -579,6 +1008,25 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
             </div>
         </div>
 
+        <!-- Docker Images Section -->
+        <div class="section">
+            <div class="section-header" onclick="toggleSection(this)">
+                <span>Docker Images</span>
+                <span class="toggle">▼</span>
+            </div>
+            <div class="section-content">
+                <div class="info-text" id="imageRepository" style="margin: 0 0 6px;"></div>
+                <div class="test-list" id="imageList">
+                    <div style="color: var(--vscode-descriptionForeground); font-style: italic;">No images loaded</div>
+                </div>
+                <div class="btn-group">
+                    <button class="btn btn-secondary" onclick="refreshImages()">Refresh</button>
+                    <button class="btn btn-primary" id="buildImageBtn" onclick="buildImage()">Build Image</button>
+                </div>
+                <div class="info-text" id="imageStatus"></div>
+            </div>
+        </div>
+
         <!-- Run Tests Section -->
         <div class="section">
             <div class="section-header" onclick="toggleSection(this)">
@@ -597,6 +1045,47 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
                 <button class="btn btn-danger" id="stopTestsBtn" onclick="stopTests()" style="width: 100%; margin-top: 8px;" disabled>
                     Stop Tests
                 </button>
+                <div id="runQueue" style="display: none; margin-top: 10px;">
+                    <label>Queued Runs</label>
+                    <div class="test-list" id="runQueueList"></div>
+                    <button class="btn btn-secondary" onclick="clearQueue()" style="width: 100%; margin-top: 6px;">Clear Queue</button>
+                </div>
+                <button class="btn btn-secondary" onclick="showVnc()" style="width: 100%; margin-top: 8px;" title="Watch the browser of a Docker run through noVNC">
+                    Watch Browser (VNC)
+                </button>
+                <div id="runProgress" style="display: none; margin-top: 10px;">
+                    <div class="progress-bar"><div class="progress-fill" id="progressFill"></div></div>
+                    <div class="progress-stats" id="progressStats"></div>
+                    <div class="progress-current" id="progressCurrent"></div>
+                </div>
+                <button class="btn btn-secondary" id="rerunFailedBtn" onclick="rerunFailed()" style="width: 100%; margin-top: 8px;" disabled>
+                    Rerun Failed
+                </button>
+                <div id="runResults" style="display: none;">
+                    <div class="divider"></div>
+                    <label>Last Run Results</label>
+                    <div class="results-summary" id="resultsSummary"></div>
+                    <div class="test-list" id="resultsList"></div>
+                    <button class="btn btn-secondary" onclick="showResults(true)" style="width: 100%; margin-top: 8px;">
+                        View Results
+                    </button>
+                </div>
+            </div>
+        </div>
+
+        <!-- Run History Section -->
+        <div class="section">
+            <div class="section-header" onclick="toggleSection(this)">
+                <span>Run History</span>
+                <span class="toggle">▼</span>
+            </div>
+            <div class="section-content">
+                <div class="test-list" id="historyList" style="max-height: 300px;">
+                    <div style="color: var(--vscode-descriptionForeground); font-style: italic;">No runs recorded yet</div>
+                </div>
+                <button class="btn btn-secondary" onclick="clearHistory()" style="margin-top: 8px; width: 100%;">
+                    Clear History
+                </button>
             </div>
         </div>
     </div>
@@ -606,9 +1095,18 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
         let currentTestTab = 'single';
         let currentRunTab = 'docker';
         let allTests = [];
-        let selectedTestCase = null;
+        let testRoots = ['Tests'];
+        // Selected test cases keyed by suite path + '::' + test name
+        let selectedTestCases = new Map();
         let selectedSuites = [];
         let selectedModule = null;
+        // Value of the module entry covering every test root
+        const ALL_ROOTS = '*';
+        let canRerunFailed = false;
+        let testsRunning = false;
+        let runProgress = null;
+        let progressTimer = null;
+        let dockerImages = null;
 
         window.addEventListener('load', () => {
             vscode.postMessage({ type: 'getInitialState' });
@@ -618,22 +1116,62 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
             const message = event.data;
             switch (message.type) {
                 case 'initialState':
+                    // Also sent after switching workspace folders, so drop the previous folder's results
+                    hideRunResults();
+                    runProgress = null;
+                    document.getElementById('runProgress').style.display = 'none';
                     applyConfig(message.config);
                     allTests = message.tests || [];
+                    testRoots = message.testRoots || testRoots;
                     populateTestSelections();
-                    updateServiceUI(message.resultsServiceRunning, message.resultsServicePort);
+                    updateServiceUI(message.resultsServiceRunning, message.resultsServicePort, message.resultsServiceStatus);
                     updateRunnerUI(message.testRunning);
+                    if (message.progress) {
+                        showRunProgress(message.progress);
+                    }
+                    break;
+                case 'runQueue':
+                    showRunQueue(message.items);
+                    break;
+                case 'dockerImages':
+                    dockerImages = message;
+                    renderImages();
                     break;
                 case 'serviceStatus':
-                    updateServiceUI(message.running, message.port);
+                    updateServiceUI(message.running, message.port, message.status);
                     break;
                 case 'runnerStatus':
                     updateRunnerUI(message.running);
                     break;
+                case 'runProgress':
+                    showRunProgress(message.progress);
+                    break;
+                case 'tagCount':
+                    showTagCount(message.matching, message.total);
+                    break;
+                case 'profiles':
+                    showProfiles(message);
+                    break;
+                case 'folders':
+                    showFolders(message);
+                    break;
+                case 'applyConfig':
+                    applyConfig(message.config);
+                    break;
+                case 'runHistory':
+                    showRunHistory(message.records || []);
+                    break;
+                case 'runResults':
+                    showRunResults(message);
+                    break;
                 case 'testList':
                     allTests = message.tests || [];
+                    testRoots = message.testRoots || testRoots;
                     populateTestSelections();
                     break;
+                case 'testListDiff':
+                    applyTestListDiff(message.suites || []);
+                    break;
             }
         });
 
@@ -646,7 +1184,7 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
 
         function switchTestTab(tab) {
             currentTestTab = tab;
-            document.querySelectorAll('#singleTestTab, #suiteTab, #moduleTab').forEach(el => el.classList.remove('active'));
+            document.querySelectorAll('#singleTestTab, #suiteTab, #moduleTab, #tagsTab').forEach(el => el.classList.remove('active'));
             document.querySelectorAll('.section:nth-child(2) .tab').forEach(t => t.classList.remove('active'));
 
             if (tab === 'single') {
@@ -655,9 +1193,13 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
             } else if (tab === 'suite') {
                 document.getElementById('suiteTab').classList.add('active');
                 document.querySelector('.section:nth-child(2) .tab:nth-child(2)').classList.add('active');
-            } else {
+            } else if (tab === 'module') {
                 document.getElementById('moduleTab').classList.add('active');
                 document.querySelector('.section:nth-child(2) .tab:nth-child(3)').classList.add('active');
+            } else {
+                document.getElementById('tagsTab').classList.add('active');
+                document.querySelector('.section:nth-child(2) .tab:nth-child(4)').classList.add('active');
+                requestTagCount();
             }
         }
 
@@ -671,9 +1213,70 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
         }
 
         function populateTestSelections() {
-            populateSuiteDropdown();
+            populateTestCaseTree();
             populateSuiteList();
             populateModuleList();
+            populateTagList();
+        }
+
+        function applyTestListDiff(suites) {
+            const byPath = new Map(suites.map(suite => [suite.path, suite]));
+            const replace = items => items.map(item => {
+                if (item.type === 'suite' && byPath.has(item.path)) {
+                    return byPath.get(item.path);
+                }
+                return item.children ? Object.assign({}, item, { children: replace(item.children) }) : item;
+            });
+            allTests = replace(allTests);
+
+            // Only tests changed, so the suite and module lists stay as they are
+            populateTestCaseTree();
+            populateTagList();
+        }
+
+        function getAllTags(items, result = new Set()) {
+            for (const item of items) {
+                (item.tags || []).forEach(tag => result.add(tag));
+                if (item.children) {
+                    getAllTags(item.children, result);
+                }
+            }
+            return result;
+        }
+
+        function populateTagList() {
+            const list = document.getElementById('tagList');
+            const tags = Array.from(getAllTags(allTests)).sort((a, b) => a.localeCompare(b));
+
+            if (tags.length === 0) {
+                list.innerHTML = '<div style="color: var(--vscode-descriptionForeground); font-style: italic;">No tags found</div>';
+                return;
+            }
+
+            let html = '';
+            tags.forEach(tag => {
+                html += '<span class="tag" data-tag="' + escapeHtml(tag) + '" onclick="addIncludeTag(this.dataset.tag)">' + escapeHtml(tag) + '</span>';
+            });
+            list.innerHTML = html;
+            requestTagCount();
+        }
+
+        function addIncludeTag(tag) {
+            const include = document.getElementById('includeTags');
+            include.value = include.value.trim() ? include.value.replace(/\\s+$/, '') + '\\n' + tag : tag;
+            requestTagCount();
+        }
+
+        function requestTagCount() {
+            vscode.postMessage({
+                type: 'countTags',
+                includeTags: document.getElementById('includeTags').value,
+                excludeTags: document.getElementById('excludeTags').value
+            });
+        }
+
+        function showTagCount(matching, total) {
+            document.getElementById('tagCount').textContent = matching + ' of ' + total + ' tests match';
         }
 
         function getAllSuites(items, result = []) {
@@ -700,47 +1303,86 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
             return result;
         }
 
-        function populateSuiteDropdown() {
-            const select = document.getElementById('singleTestSuite');
-            const suites = getAllSuites(allTests);
-            select.innerHTML = '<option value="">-- Select a suite --</option>';
-            suites.forEach((suite, idx) => {
-                select.innerHTML += '<option value="' + idx + '">' + suite.path + '</option>';
-            });
+        function testCaseKey(suitePath, testName) {
+            return suitePath + '::' + testName;
         }
 
-        function updateTestCaseList() {
-            const select = document.getElementById('singleTestSuite');
+        function populateTestCaseTree() {
             const list = document.getElementById('testCaseList');
-            const idx = select.value;
+            const suites = getAllSuites(allTests).filter(suite => suite.children && suite.children.length > 0);
 
-            if (idx === '') {
-                list.innerHTML = '<div style="color: var(--vscode-descriptionForeground); font-style: italic;">Select a suite first</div>';
-                selectedTestCase = null;
-                return;
-            }
+            // Drop selections whose test no longer exists after a refresh
+            const known = new Set();
+            suites.forEach(suite => suite.children.forEach(tc => known.add(testCaseKey(suite.path, tc.testName))));
+            Array.from(selectedTestCases.keys()).forEach(key => { if (!known.has(key)) { selectedTestCases.delete(key); } });
 
-            const suites = getAllSuites(allTests);
-            const suite = suites[parseInt(idx)];
-
-            if (!suite.children || suite.children.length === 0) {
-                list.innerHTML = '<div style="color: var(--vscode-descriptionForeground); font-style: italic;">No test cases found in this suite</div>';
+            if (suites.length === 0) {
+                list.innerHTML = '<div style="color: var(--vscode-descriptionForeground); font-style: italic;">No test cases found</div>';
+                updateSelectedTestCount();
                 return;
             }
 
             let html = '';
-            suite.children.forEach((tc, i) => {
-                const id = 'tc_' + idx + '_' + i;
-                html += '<div class="test-item">';
-                html += '<input type="radio" name="testCase" id="' + id + '" value="' + tc.testName + '" data-suite="' + suite.path + '" onchange="selectTestCase(this)">';
-                html += '<label for="' + id + '">🧪 ' + tc.name + '</label>';
-                html += '</div>';
+            suites.forEach((suite, idx) => {
+                html += '<div class="suite-group">';
+                html += '<div class="test-item suite-header">';
+                html += '<input type="checkbox" id="tcsuite_' + idx + '" data-suite="' + escapeHtml(suite.path) + '" onchange="toggleSuiteTestCases(this)">';
+                html += '<label for="tcsuite_' + idx + '">📄 ' + escapeHtml(suite.path) + '</label>';
+                html += '</div><div class="suite-tests">';
+                suite.children.forEach((tc, i) => {
+                    const id = 'tc_' + idx + '_' + i;
+                    const checked = selectedTestCases.has(testCaseKey(suite.path, tc.testName)) ? ' checked' : '';
+                    const tags = (tc.tags || []).map(tag => ' <span class="tag">' + escapeHtml(tag) + '</span>').join('');
+                    html += '<div class="test-item">';
+                    html += '<input type="checkbox" id="' + id + '" data-suite="' + escapeHtml(suite.path) + '" data-test="' + escapeHtml(tc.testName) + '"' + checked + ' onchange="toggleTestCase(this)">';
+                    html += '<label for="' + id + '">🧪 ' + escapeHtml(tc.name) + tags + '</label>';
+                    html += '</div>';
+                });
+                html += '</div></div>';
             });
             list.innerHTML = html;
+            syncSuiteCheckboxes();
+            updateSelectedTestCount();
+        }
+
+        function toggleTestCase(checkbox) {
+            const key = testCaseKey(checkbox.dataset.suite, checkbox.dataset.test);
+            if (checkbox.checked) {
+                selectedTestCases.set(key, { suitePath: checkbox.dataset.suite, name: checkbox.dataset.test });
+            } else {
+                selectedTestCases.delete(key);
+            }
+            syncSuiteCheckboxes();
+            updateSelectedTestCount();
+        }
+
+        function toggleSuiteTestCases(checkbox) {
+            const group = checkbox.closest('.suite-group');
+            group.querySelectorAll('.suite-tests input[type="checkbox"]').forEach(testBox => {
+                testBox.checked = checkbox.checked;
+                toggleTestCase(testBox);
+            });
+        }
+
+        // Reflect "all"/"some"/"none" selected tests on each suite checkbox
+        function syncSuiteCheckboxes() {
+            document.querySelectorAll('#testCaseList .suite-group').forEach(group => {
+                const tests = Array.from(group.querySelectorAll('.suite-tests input[type="checkbox"]'));
+                const checkedCount = tests.filter(box => box.checked).length;
+                const suiteBox = group.querySelector('.suite-header input');
+                suiteBox.checked = checkedCount > 0 && checkedCount === tests.length;
+                suiteBox.indeterminate = checkedCount > 0 && checkedCount < tests.length;
+            });
+        }
+
+        function updateSelectedTestCount() {
+            const count = selectedTestCases.size;
+            document.getElementById('selectedTestCount').textContent = count > 0 ? '(' + count + ' selected)' : '';
         }
 
-        function selectTestCase(radio) {
-            selectedTestCase = { name: radio.value, suitePath: radio.dataset.suite };
+        function clearTestCaseSelection() {
+            selectedTestCases.clear();
+            populateTestCaseTree();
         }
 
         function populateSuiteList() {
@@ -752,10 +1394,14 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
                 return;
             }
 
+            // Keep selections across refreshes, dropping suites that no longer exist
+            selectedSuites = selectedSuites.filter(path => suites.some(suite => suite.path === path));
+
             let html = '';
             suites.forEach((suite, idx) => {
+                const checked = selectedSuites.includes(suite.path) ? ' checked' : '';
                 html += '<div class="test-item">';
-                html += '<input type="checkbox" id="suite_' + idx + '" value="' + suite.path + '" onchange="toggleSuiteSelection(this)">';
+                html += '<input type="checkbox" id="suite_' + idx + '" value="' + suite.path + '"' + checked + ' onchange="toggleSuiteSelection(this)">';
                 html += '<label for="suite_' + idx + '">📄 ' + suite.path + '</label>';
                 html += '</div>';
             });
@@ -776,15 +1422,21 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
             const list = document.getElementById('moduleList');
             const modules = getAllModules(allTests);
 
-            // Add root Tests folder
+            // Keep the selection across refreshes unless the module is gone
+            if (selectedModule !== ALL_ROOTS && !modules.some(mod => mod.path === selectedModule)) {
+                selectedModule = null;
+            }
+
+            // Add entry covering every configured test root
             let html = '<div class="test-item">';
-            html += '<input type="radio" name="module" id="module_root" value="Tests" onchange="selectModule(this)">';
-            html += '<label for="module_root">📁 Tests (All)</label>';
+            html += '<input type="radio" name="module" id="module_root" value="' + ALL_ROOTS + '"' + (selectedModule === ALL_ROOTS ? ' checked' : '') + ' onchange="selectModule(this)">';
+            html += '<label for="module_root">📁 ' + escapeHtml(testRoots.join(', ')) + ' (All)</label>';
             html += '</div>';
 
             modules.forEach((mod, idx) => {
+                const checked = selectedModule === mod.path ? ' checked' : '';
                 html += '<div class="test-item">';
-                html += '<input type="radio" name="module" id="module_' + idx + '" value="' + mod.path + '" onchange="selectModule(this)">';
+                html += '<input type="radio" name="module" id="module_' + idx + '" value="' + mod.path + '"' + checked + ' onchange="selectModule(this)">';
                 html += '<label for="module_' + idx + '">📁 ' + mod.path + '</label>';
                 html += '</div>';
             });
@@ -800,25 +1452,122 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
             vscode.postMessage({ type: 'startResultsService', port });
         }
 
+        function showRunQueue(items) {
+            const container = document.getElementById('runQueue');
+            container.style.display = items.length > 0 ? 'block' : 'none';
+
+            let html = '';
+            items.forEach((item, idx) => {
+                html += '<div class="history-item">';
+                html += '<div>' + (idx + 1) + '. ' + escapeHtml(item.label) + '</div>';
+                html += '<div class="history-meta">' + (item.mode === 'docker' ? 'Docker' : 'Local') + ' · queued ' + escapeHtml(new Date(item.queuedAt).toLocaleTimeString()) + '</div>';
+                html += '<div class="history-actions">';
+                html += '<button class="btn btn-secondary" data-id="' + item.runId + '" onclick="moveQueued(this.dataset.id, -1)"' + (idx === 0 ? ' disabled' : '') + ' title="Move up">↑</button>';
+                html += '<button class="btn btn-secondary" data-id="' + item.runId + '" onclick="moveQueued(this.dataset.id, 1)"' + (idx === items.length - 1 ? ' disabled' : '') + ' title="Move down">↓</button>';
+                html += '<button class="btn btn-secondary" data-id="' + item.runId + '" onclick="removeQueued(this.dataset.id)">Remove</button>';
+                html += '</div></div>';
+            });
+            document.getElementById('runQueueList').innerHTML = html;
+        }
+
+        function moveQueued(runId, offset) {
+            vscode.postMessage({ type: 'moveQueued', runId: Number(runId), offset: offset });
+        }
+
+        function removeQueued(runId) {
+            vscode.postMessage({ type: 'removeQueued', runId: Number(runId) });
+        }
+
+        function clearQueue() {
+            vscode.postMessage({ type: 'clearQueue' });
+        }
+
+        function showVnc() {
+            vscode.postMessage({ type: 'showVnc' });
+        }
+
+        function refreshImages() {
+            vscode.postMessage({ type: 'listImages' });
+        }
+
+        function buildImage() {
+            vscode.postMessage({ type: 'buildImage', image: document.getElementById('imageName').value.trim() });
+        }
+
+        function useImage(image) {
+            document.getElementById('imageName').value = image;
+            vscode.postMessage({ type: 'updateConfig', config: getConfig() });
+            renderImages();
+        }
+
+        function renderImages() {
+            const selected = document.getElementById('imageName').value.trim();
+            const list = document.getElementById('imageList');
+            const status = document.getElementById('imageStatus');
+            if (!dockerImages) {
+                return;
+            }
+
+            document.getElementById('imageRepository').textContent = dockerImages.repository
+                ? 'Repository: ' + dockerImages.repository
+                : 'All local images';
+            document.getElementById('buildImageBtn').disabled = dockerImages.building || !dockerImages.hasDockerfile || !selected;
+            status.textContent = dockerImages.building
+                ? 'Building image, see the RF Docker Images output...'
+                : (dockerImages.hasDockerfile ? 'Build Image builds the workspace Dockerfile as the Docker Image of the run configuration' : 'No Dockerfile in the workspace folder');
+
+            if (dockerImages.error) {
+                list.innerHTML = '<div style="color: var(--vscode-errorForeground);">' + escapeHtml(dockerImages.error) + '</div>';
+                document.getElementById('imageMissing').style.display = 'none';
+                return;
+            }
+
+            const names = dockerImages.images.map(image => image.repository + ':' + image.tag);
+            document.getElementById('imageMissing').style.display = selected && !names.includes(selected) ? 'block' : 'none';
+            if (dockerImages.images.length === 0) {
+                list.innerHTML = '<div style="color: var(--vscode-descriptionForeground); font-style: italic;">No local images</div>';
+                return;
+            }
+
+            let html = '';
+            dockerImages.images.forEach((image, idx) => {
+                const name = names[idx];
+                html += '<div class="history-item">';
+                html += '<div' + (name === selected ? ' style="font-weight: 600;"' : '') + '>' + escapeHtml(name) + '</div>';
+                html += '<div class="history-meta">' + escapeHtml(image.size) + ' · ' + escapeHtml(image.created) + ' · ' + escapeHtml(image.id) + '</div>';
+                html += '<div class="history-actions"><button class="btn btn-secondary" data-image="' + escapeHtml(name) + '" onclick="useImage(this.dataset.image)"' + (name === selected ? ' disabled' : '') + '>Use</button></div>';
+                html += '</div>';
+            });
+            list.innerHTML = html;
+        }
+
+        function showResults(lastRun) {
+            vscode.postMessage({ type: 'showResults', lastRun });
+        }
+
         function stopService() {
             vscode.postMessage({ type: 'stopResultsService' });
         }
 
-        function updateServiceUI(running, port) {
-            const status = document.getElementById('serviceStatus');
+        function updateServiceUI(running, port, status) {
+            const statusEl = document.getElementById('serviceStatus');
             const startBtn = document.getElementById('startServiceBtn');
             const stopBtn = document.getElementById('stopServiceBtn');
-            if (running) {
-                status.className = 'status-indicator running';
-                status.innerHTML = '<span class="status-dot running"></span><span>Running on port ' + port + '</span>';
-                startBtn.disabled = true;
-                stopBtn.disabled = false;
-            } else {
-                status.className = 'status-indicator stopped';
-                status.innerHTML = '<span class="status-dot stopped"></span><span>Stopped</span>';
-                startBtn.disabled = false;
-                stopBtn.disabled = true;
+            // The service may have moved to another port after a conflict
+            if (port) {
+                document.getElementById('servicePort').value = port;
             }
+            const labels = {
+                starting: 'Starting on port ' + port + '...',
+                running: 'Running on port ' + port,
+                unreachable: 'Not responding on port ' + port
+            };
+            const state = running ? (status || 'running') : 'stopped';
+            const healthy = state === 'running' || state === 'starting';
+            statusEl.className = 'status-indicator ' + (healthy ? 'running' : 'stopped');
+            statusEl.innerHTML = '<span class="status-dot ' + (healthy ? 'running' : 'stopped') + '"></span><span>' + escapeHtml(labels[state] || 'Stopped') + '</span>';
+            startBtn.disabled = running;
+            stopBtn.disabled = !running;
         }
 
         function updateRunnerUI(running) {
@@ -826,17 +1575,28 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
             const runDockerBtn = document.getElementById('runDockerBtn');
             const runLocalBtn = document.getElementById('runLocalBtn');
             const stopBtn = document.getElementById('stopTestsBtn');
+            const wasRunning = testsRunning;
+            testsRunning = running;
+            document.getElementById('rerunFailedBtn').disabled = running || !canRerunFailed;
+            if (running && !wasRunning) {
+                // A new run starts: drop the progress of the previous one
+                runProgress = null;
+                document.getElementById('runProgress').style.display = 'none';
+            } else if (!running) {
+                stopProgressTimer();
+            }
             if (running) {
                 status.className = 'status-indicator running';
                 status.innerHTML = '<span class="status-dot running"></span><span>Tests Running...</span>';
-                runDockerBtn.disabled = true;
-                runLocalBtn.disabled = true;
+                // Further runs wait in the queue
+                runDockerBtn.textContent = 'Queue (Docker)';
+                runLocalBtn.textContent = 'Queue (Local)';
                 stopBtn.disabled = false;
             } else {
                 status.className = 'status-indicator stopped';
                 status.innerHTML = '<span class="status-dot stopped"></span><span>Ready</span>';
-                runDockerBtn.disabled = false;
-                runLocalBtn.disabled = false;
+                runDockerBtn.textContent = 'Run (Docker)';
+                runLocalBtn.textContent = 'Run (Local)';
                 stopBtn.disabled = true;
             }
         }
@@ -844,24 +1604,40 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
         function getTestSelection() {
             const customPath = document.getElementById('customTestPath').value.trim();
             if (customPath) {
-                return { testPath: customPath, testNames: [] };
+                return { testPath: customPath, testNames: [], selections: [] };
             }
 
-            if (currentTestTab === 'single' && selectedTestCase) {
-                return { testPath: selectedTestCase.suitePath, testNames: [selectedTestCase.name] };
+            if (currentTestTab === 'single' && selectedTestCases.size > 0) {
+                // The runner aggregates the suite paths and qualifies each name by its suite
+                const selections = Array.from(selectedTestCases.values()).map(tc => ({
+                    type: 'test',
+                    name: tc.name,
+                    path: tc.suitePath,
+                    testName: tc.name
+                }));
+                return { testPath: '', testNames: [], selections };
             } else if (currentTestTab === 'suite' && selectedSuites.length > 0) {
-                return { testPath: selectedSuites.join(' '), testNames: [] };
+                // One selection per path: the runner passes each to Robot as its own argument
+                const selections = selectedSuites.map(suitePath => ({
+                    type: 'suite',
+                    name: suitePath.split('/').pop().replace(/\.[^.]+$/, ''),
+                    path: suitePath
+                }));
+                return { testPath: '', testNames: [], selections };
             } else if (currentTestTab === 'module' && selectedModule) {
-                return { testPath: selectedModule, testNames: [] };
+                const paths = selectedModule === ALL_ROOTS ? testRoots : [selectedModule];
+                const selections = paths.map(modulePath => ({ type: 'module', name: modulePath, path: modulePath }));
+                return { testPath: '', testNames: [], selections };
             }
 
-            return { testPath: 'Tests', testNames: [] };
+            // Nothing selected: the runner falls back to the configured test roots
+            return { testPath: '', testNames: [], selections: [] };
         }
 
         function getConfig() {
             const selection = getTestSelection();
             return {
-                selections: [],
+                selections: selection.selections,
                 customTestPath: selection.testPath,
                 testCaseNames: selection.testNames,
                 captchaSolver: document.getElementById('captchaSolver').value === 'true',
@@ -883,13 +1659,19 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
                 logLevel: document.getElementById('logLevel').value,
                 reportTitle: document.getElementById('reportTitle').value,
                 customVariables: document.getElementById('customVariables').value,
+                includeTags: document.getElementById('includeTags').value,
+                excludeTags: document.getElementById('excludeTags').value,
                 maximizeBrowser: document.getElementById('maximizeBrowser').value === 'true',
                 autoCloseBrowser: document.getElementById('autoCloseBrowser').value === 'true',
                 keepVncOpen: document.getElementById('keepVncOpen').value === 'true',
                 fullWidthViewport: document.getElementById('fullWidthViewport').value === 'true',
                 imageName: document.getElementById('imageName').value,
                 installDependencies: document.getElementById('installDependencies').value === 'true',
-                checkDeps: document.getElementById('checkDeps').value === 'true'
+                checkDeps: document.getElementById('checkDeps').value === 'true',
+                parallel: document.getElementById('parallel').value === 'true',
+                parallelProcesses: parseInt(document.getElementById('parallelProcesses').value) || 4,
+                testLevelSplit: document.getElementById('testLevelSplit').value === 'true',
+                orderingFile: document.getElementById('orderingFile').value
             };
         }
 
@@ -918,9 +1700,16 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
             document.getElementById('keepVncOpen').value = config.keepVncOpen ? 'true' : 'false';
             document.getElementById('fullWidthViewport').value = config.fullWidthViewport ? 'true' : 'false';
             document.getElementById('imageName').value = config.imageName || 'robot-framework-custom:latest';
+            renderImages();
             document.getElementById('installDependencies').value = config.installDependencies ? 'true' : 'false';
             document.getElementById('checkDeps').value = config.checkDeps ? 'true' : 'false';
+            document.getElementById('parallel').value = config.parallel ? 'true' : 'false';
+            document.getElementById('parallelProcesses').value = config.parallelProcesses || 4;
+            document.getElementById('testLevelSplit').value = config.testLevelSplit ? 'true' : 'false';
+            document.getElementById('orderingFile').value = config.orderingFile || '';
             document.getElementById('customVariables').value = config.customVariables || '';
+            document.getElementById('includeTags').value = config.includeTags || '';
+            document.getElementById('excludeTags').value = config.excludeTags || '';
         }
 
         function runTests(mode) {
@@ -928,10 +1717,171 @@ export class RFTestRunnerViewProvider implements vscode.WebviewViewProvider {
             vscode.postMessage({ type: 'runTests', mode, config });
         }
 
+        function rerunFailed() {
+            vscode.postMessage({ type: 'rerunFailed' });
+        }
+
         function stopTests() {
             vscode.postMessage({ type: 'stopTests' });
         }
 
+        function escapeHtml(value) {
+            return String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+        }
+
+        function hideRunResults() {
+            canRerunFailed = false;
+            document.getElementById('rerunFailedBtn').disabled = true;
+            document.getElementById('runResults').style.display = 'none';
+        }
+
+        function showFolders(state) {
+            document.getElementById('folderSelector').style.display = state.folders.length > 1 ? 'block' : 'none';
+            const select = document.getElementById('workspaceFolder');
+            select.innerHTML = state.folders
+                .map(folder => '<option value="' + escapeHtml(folder.id) + '">' + escapeHtml(folder.name) + '</option>')
+                .join('');
+            select.value = state.active;
+        }
+
+        function selectFolder(id) {
+            vscode.postMessage({ type: 'selectFolder', id });
+        }
+
+        function showRunResults(result) {
+            canRerunFailed = !!result.canRerunFailed;
+            document.getElementById('rerunFailedBtn').disabled = !canRerunFailed || testsRunning;
+            document.getElementById('runResults').style.display = 'block';
+            const summary = document.getElementById('resultsSummary');
+            const list = document.getElementById('resultsList');
+
+            if (result.passed === undefined) {
+                summary.textContent = 'Exit code ' + result.exitCode + ' (no output.xml found)';
+                list.innerHTML = '<div style="color: var(--vscode-descriptionForeground); font-style: italic;">No per-test results available</div>';
+                return;
+            }
+
+            summary.textContent = result.passed + ' passed, ' + result.failed + ' failed, ' + result.skipped + ' skipped';
+            let html = '';
+            result.tests.forEach(test => {
+                html += '<div class="result-item" title="' + escapeHtml(test.longName) + '">';
+                html += '<span class="result-status ' + test.status.split(' ')[0] + '">' + test.status + '</span>';
+                html += escapeHtml(test.name) + ' (' + (test.elapsedMs / 1000).toFixed(1) + 's)';
+                if (test.status === 'FAIL' && test.message) {
+                    html += '<div class="result-message">' + escapeHtml(test.message) + '</div>';
+                }
+                html += '</div>';
+            });
+            list.innerHTML = html;
+        }
+
+        function showProfiles(state) {
+            const select = document.getElementById('profileSelect');
+            let html = '<option value="">(No profile)</option>';
+            state.names.forEach(name => {
+                const label = name === state.defaultProfile ? name + ' (default)' : name;
+                html += '<option value="' + escapeHtml(name) + '">' + escapeHtml(label) + '</option>';
+            });
+            select.innerHTML = html;
+            select.value = state.active;
+            document.querySelectorAll('.profile-only').forEach(btn => btn.disabled = !state.active);
+            document.getElementById('setDefaultProfileBtn').disabled = !state.active || state.active === state.defaultProfile;
+        }
+
+        function selectProfile(name) {
+            vscode.postMessage({ type: 'selectProfile', name });
+        }
+
+        function profileAction(action) {
+            vscode.postMessage({ type: 'profileAction', action, config: getConfig() });
+        }
+
+        function showRunProgress(progress) {
+            runProgress = progress;
+            document.getElementById('runProgress').style.display = 'block';
+
+            const fill = document.getElementById('progressFill');
+            const percent = progress.total > 0 ? Math.min(100, Math.round(progress.completed / progress.total * 100)) : 0;
+            fill.style.width = percent + '%';
+            fill.classList.toggle('failed', progress.failed > 0);
+
+            const current = [progress.currentTest || progress.currentSuite, progress.currentKeyword].filter(Boolean).join(' › ');
+            const currentLine = document.getElementById('progressCurrent');
+            currentLine.textContent = current && testsRunning ? 'Running: ' + current : '';
+            currentLine.title = current;
+
+            renderProgressStats();
+            // Keep the elapsed time ticking between listener events
+            if (testsRunning && !progressTimer) {
+                progressTimer = setInterval(renderProgressStats, 1000);
+            }
+        }
+
+        function renderProgressStats() {
+            if (!runProgress) {
+                return;
+            }
+            const total = runProgress.total > 0 ? runProgress.total : '?';
+            document.getElementById('progressStats').textContent = runProgress.completed + '/' + total + ' tests · '
+                + runProgress.passed + ' passed · ' + runProgress.failed + ' failed · ' + runProgress.skipped + ' skipped · '
+                + formatElapsed(Date.now() - runProgress.startTime);
+        }
+
+        function stopProgressTimer() {
+            if (progressTimer) {
+                clearInterval(progressTimer);
+                progressTimer = null;
+            }
+            document.getElementById('progressCurrent').textContent = '';
+        }
+
+        function formatElapsed(ms) {
+            const seconds = Math.max(0, Math.floor(ms / 1000));
+            return Math.floor(seconds / 60) + ':' + String(seconds % 60).padStart(2, '0');
+        }
+
+        function showRunHistory(records) {
+            const list = document.getElementById('historyList');
+            if (records.length === 0) {
+                list.innerHTML = '<div style="color: var(--vscode-descriptionForeground); font-style: italic;">No runs recorded yet</div>';
+                return;
+            }
+
+            let html = '';
+            records.forEach(record => {
+                const counts = record.passed === undefined
+                    ? 'exit code ' + record.exitCode
+                    : record.passed + ' passed, ' + record.failed + ' failed, ' + record.skipped + ' skipped';
+                const status = record.exitCode === 0 ? 'PASS' : 'FAIL';
+                html += '<div class="history-item" title="' + escapeHtml(record.command) + '">';
+                html += '<div><span class="result-status ' + status + '">' + status + '</span>';
+                html += escapeHtml(new Date(record.timestamp).toLocaleString()) + ' · ' + record.mode + '</div>';
+                html += '<div class="history-meta">' + counts + ' · ' + (record.durationMs / 1000).toFixed(0) + 's</div>';
+                html += '<div class="history-actions">';
+                html += '<button class="btn btn-secondary" data-id="' + record.id + '" onclick="openHistoryReport(this.dataset.id)"' + (record.hasArtifacts ? '' : ' disabled') + '>Report</button>';
+                html += '<button class="btn btn-secondary" data-id="' + record.id + '" onclick="rerunHistory(this.dataset.id)">' + (testsRunning ? 'Queue Again' : 'Run Again') + '</button>';
+                html += '<button class="btn btn-secondary" data-id="' + record.id + '" onclick="deleteHistory(this.dataset.id)">Delete</button>';
+                html += '</div></div>';
+            });
+            list.innerHTML = html;
+        }
+
+        function openHistoryReport(id) {
+            vscode.postMessage({ type: 'openHistoryReport', id });
+        }
+
+        function rerunHistory(id) {
+            vscode.postMessage({ type: 'rerunHistory', id });
+        }
+
+        function deleteHistory(id) {
+            vscode.postMessage({ type: 'deleteHistory', id });
+        }
+
+        function clearHistory() {
+            vscode.postMessage({ type: 'clearHistory' });
+        }
+
         function refreshTests() {
             vscode.postMessage({ type: 'refreshTests' });
         }
@@ -0,0 +1,234 @@
+import * as vscode from 'vscode';
+import { ResultsServiceManager } from './resultsService';
+import { TestRunner, TestConfig, RunResult, DockerRunStart, defaultConfig } from './testRunner';
+import { RunProgress } from './runProgress';
+import { TestDiscovery } from './testDiscovery';
+import { ProfileManager } from './profileManager';
+import { TestFileWatcher } from './testWatcher';
+import { DockerImageManager } from './dockerImages';
+
+/**
+ * A workspace folder holding a Robot project, with its own runner, results service and settings
+ */
+export class RobotWorkspace implements vscode.Disposable {
+    readonly resultsService: ResultsServiceManager;
+    readonly testRunner: TestRunner;
+    readonly discovery: TestDiscovery;
+    readonly profiles: ProfileManager;
+    readonly watcher: TestFileWatcher;
+    readonly images: DockerImageManager;
+    private readonly target: vscode.ConfigurationTarget;
+
+    /**
+     * @param label Distinguishes the folder's output channels in multi-root workspaces
+     */
+    constructor(readonly folder: vscode.WorkspaceFolder, label?: string) {
+        // In multi-root workspaces settings are written to the folder's own settings file
+        this.target = vscode.workspace.workspaceFile
+            ? vscode.ConfigurationTarget.WorkspaceFolder
+            : vscode.ConfigurationTarget.Workspace;
+
+        this.resultsService = new ResultsServiceManager(this.root, label);
+        this.images = new DockerImageManager(this.root, label);
+        this.testRunner = new TestRunner(this.root, label, this.images);
+        this.discovery = new TestDiscovery(this.root);
+        this.profiles = new ProfileManager(folder.uri, this.target);
+        this.watcher = new TestFileWatcher(folder);
+    }
+
+    get id(): string {
+        return this.folder.uri.toString();
+    }
+
+    get name(): string {
+        return this.folder.name;
+    }
+
+    get root(): string {
+        return this.folder.uri.fsPath;
+    }
+
+    /**
+     * Load the folder's run configuration, or the given profile when it exists
+     */
+    loadConfig(profile?: string): TestConfig {
+        const profileConfig = profile ? this.profiles.getConfig(profile) : undefined;
+        if (profileConfig) {
+            return profileConfig;
+        }
+
+        const savedConfig = vscode.workspace.getConfiguration('rfTestRunner', this.folder.uri).get('config', {}) as Partial<TestConfig>;
+
+        // Merge saved config with defaults to ensure all properties exist
+        return { ...defaultConfig, ...savedConfig };
+    }
+
+    /**
+     * Save the folder's run configuration. Profiles are only written by ProfileManager.save.
+     */
+    saveConfig(config: TestConfig): void {
+        vscode.workspace.getConfiguration('rfTestRunner', this.folder.uri).update('config', config, this.target);
+    }
+
+    dispose() {
+        this.watcher.dispose();
+        this.testRunner.dispose();
+        this.resultsService.dispose();
+        this.images.dispose();
+    }
+}
+
+/**
+ * Tracks the open workspace folders and which one the view is working on
+ */
+export class WorkspaceManager implements vscode.Disposable {
+    private static readonly activeKey = 'rfTestRunner.activeFolder';
+    private _workspaces: RobotWorkspace[] = [];
+    private _active?: RobotWorkspace;
+    private readonly _onDidChangeWorkspaces = new vscode.EventEmitter<void>();
+    private readonly _onDidChangeActive = new vscode.EventEmitter<RobotWorkspace | undefined>();
+    private readonly _onDidFinishRun = new vscode.EventEmitter<RunResult>();
+    private readonly _onDidChangeRunnerStatus = new vscode.EventEmitter<{ workspace: RobotWorkspace; running: boolean }>();
+    private readonly _onDidChangeTests = new vscode.EventEmitter<RobotWorkspace>();
+    private readonly _onDidProgress = new vscode.EventEmitter<{ workspace: RobotWorkspace; progress: RunProgress }>();
+    private readonly _onDidChangeServiceStatus = new vscode.EventEmitter<RobotWorkspace>();
+    private readonly _onDidChangeImages = new vscode.EventEmitter<RobotWorkspace>();
+    private readonly _onDidChangeQueue = new vscode.EventEmitter<RobotWorkspace>();
+    private readonly _onDidStartDockerRun = new vscode.EventEmitter<{ workspace: RobotWorkspace; start: DockerRunStart }>();
+    private readonly folderListener: vscode.Disposable;
+
+    readonly onDidChangeWorkspaces = this._onDidChangeWorkspaces.event;
+    readonly onDidChangeActive = this._onDidChangeActive.event;
+
+    /**
+     * Fired when a run finishes in any of the workspace folders
+     */
+    readonly onDidFinishRun = this._onDidFinishRun.event;
+    readonly onDidChangeRunnerStatus = this._onDidChangeRunnerStatus.event;
+    readonly onDidProgress = this._onDidProgress.event;
+
+    /**
+     * Fired when a folder's results service starts, stops or stops answering
+     */
+    readonly onDidChangeServiceStatus = this._onDidChangeServiceStatus.event;
+
+    /**
+     * Fired when a folder's Docker image build starts or finishes
+     */
+    readonly onDidChangeImages = this._onDidChangeImages.event;
+
+    /**
+     * Fired when a folder's run queue changes
+     */
+    readonly onDidChangeQueue = this._onDidChangeQueue.event;
+
+    /**
+     * Fired when the container of a folder's Docker run starts
+     */
+    readonly onDidStartDockerRun = this._onDidStartDockerRun.event;
+
+    /**
+     * Fired after suite files changed on disk and the folder's discovery was updated
+     */
+    readonly onDidChangeTests = this._onDidChangeTests.event;
+
+    constructor(private readonly storage: vscode.Memento) {
+        this.sync();
+        this.folderListener = vscode.workspace.onDidChangeWorkspaceFolders(() => this.sync());
+    }
+
+    get workspaces(): readonly RobotWorkspace[] {
+        return this._workspaces;
+    }
+
+    get active(): RobotWorkspace | undefined {
+        return this._active;
+    }
+
+    get isMultiRoot(): boolean {
+        return this._workspaces.length > 1;
+    }
+
+    get(id: string): RobotWorkspace | undefined {
+        return this._workspaces.find(workspace => workspace.id === id);
+    }
+
+    /**
+     * The workspace folder containing a file
+     */
+    getForUri(uri: vscode.Uri): RobotWorkspace | undefined {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        return folder ? this.get(folder.uri.toString()) : undefined;
+    }
+
+    setActive(id: string): boolean {
+        const workspace = this.get(id);
+        if (!workspace || workspace === this._active) {
+            return false;
+        }
+
+        this._active = workspace;
+        this.storage.update(WorkspaceManager.activeKey, workspace.id);
+        this._onDidChangeActive.fire(workspace);
+        return true;
+    }
+
+    /**
+     * Create workspaces for added folders and dispose those of removed ones
+     */
+    private sync() {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        const existing = new Map(this._workspaces.map(workspace => [workspace.id, workspace]));
+
+        this._workspaces = folders.map(folder =>
+            existing.get(folder.uri.toString()) ?? this.create(folder, folders.length > 1 ? folder.name : undefined)
+        );
+
+        for (const workspace of existing.values()) {
+            if (!this._workspaces.includes(workspace)) {
+                workspace.dispose();
+            }
+        }
+
+        // Keep the selected folder while it is open, otherwise restore the last selected one
+        if (!this._active || !this._workspaces.includes(this._active)) {
+            const savedId = this.storage.get<string>(WorkspaceManager.activeKey);
+            this._active = this._workspaces.find(workspace => workspace.id === savedId) ?? this._workspaces[0];
+            this._onDidChangeActive.fire(this._active);
+        }
+
+        this._onDidChangeWorkspaces.fire();
+    }
+
+    private create(folder: vscode.WorkspaceFolder, label?: string): RobotWorkspace {
+        const workspace = new RobotWorkspace(folder, label);
+        workspace.testRunner.onDidFinishRun(result => this._onDidFinishRun.fire(result));
+        workspace.testRunner.onDidProgress(progress => this._onDidProgress.fire({ workspace, progress }));
+        workspace.testRunner.setOnStatusChange(running => this._onDidChangeRunnerStatus.fire({ workspace, running }));
+        workspace.resultsService.onDidChangeStatus(() => this._onDidChangeServiceStatus.fire(workspace));
+        workspace.images.onDidChange(() => this._onDidChangeImages.fire(workspace));
+        workspace.testRunner.onDidChangeQueue(() => this._onDidChangeQueue.fire(workspace));
+        workspace.testRunner.onDidStartDockerRun(start => this._onDidStartDockerRun.fire({ workspace, start }));
+        workspace.watcher.onDidChange(changedPaths => {
+            workspace.discovery.rescan(changedPaths);
+            this._onDidChangeTests.fire(workspace);
+        });
+        return workspace;
+    }
+
+    dispose() {
+        this.folderListener.dispose();
+        this._workspaces.forEach(workspace => workspace.dispose());
+        this._workspaces = [];
+        this._onDidChangeWorkspaces.dispose();
+        this._onDidChangeActive.dispose();
+        this._onDidFinishRun.dispose();
+        this._onDidChangeRunnerStatus.dispose();
+        this._onDidChangeTests.dispose();
+        this._onDidProgress.dispose();
+        this._onDidChangeServiceStatus.dispose();
+        this._onDidChangeImages.dispose();
+        this._onDidChangeQueue.dispose();
+        this._onDidStartDockerRun.dispose();
+    }
+}